@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+/**
+ * Historical TVL Backfill Script
+ *
+ * Rebuilds the weighted TVL table at past blocks (via /api/weighted-tvl?block=N)
+ * and stores each one as a backfilled snapshot, in the same shape as
+ * capture-snapshot.js. Blocks that already have a snapshot are skipped, so the
+ * script can be re-run to fill gaps.
+ *
+ * The app must have archive access for the reads: DATA_PROVIDER=rpc with an
+ * archive RPC_URL, or Etherscan (its eth_call proxy accepts past blocks).
+ * Backfilled snapshots have no points total (the points API has no history),
+ * and USD prices come from the Pendle API at the time of the backfill. Contracts that
+ * weren't deployed yet at a block (a later market, say) read as 0 rather than as a failed read.
+ * Each snapshot goes through the same data-quality checks as live captures and
+ * is saved as quarantined if it fails them.
+ *
+ * Usage:
+ *   node scripts/backfill-snapshots.js [--from-block N] [--to-block N] [--step N] [--dry-run]
+ *
+ *   --from-block  First block (default: season startBlock from src/data/points-cache.json)
+ *   --to-block    Last block (default: latest block reported by /api/weighted-tvl)
+ *   --step        Blocks between snapshots (default: 7200, ~1 day)
+ *
+ * The API only serves past blocks on a 300-block grid, so the first block is rounded up
+ * to it and --step must be a multiple of it.
+ *   --dry-run     Print the snapshots instead of saving them
+ *
+ * Environment variables required: same as capture-snapshot.js
+ */
+
+const path = require('path');
+const fs = require('fs');
+const { fetchWeightedTvl, buildSnapshot, saveToSupabase, supabase } = require('./capture-snapshot');
+
+const BLOCKS_PER_DAY = 7200; // 12s blocks
+const BLOCK_GRID = 300;      // Must match BLOCK_PARAM_GRID in src/lib/tvl.ts
+const REQUEST_DELAY = 2000;  // Breathing room for the app's rate-limited reads
+
+function parseArgs(argv) {
+  const args = { fromBlock: null, toBlock: null, step: BLOCKS_PER_DAY, dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') args.dryRun = true;
+    else if (arg === '--from-block') args.fromBlock = parseInt(argv[++i], 10);
+    else if (arg === '--to-block') args.toBlock = parseInt(argv[++i], 10);
+    else if (arg === '--step') args.step = parseInt(argv[++i], 10);
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
+}
+
+// Season start block, as cached by scripts/fetch-points.js
+function getSeasonStartBlock() {
+  const cachePath = path.join(__dirname, '..', 'src', 'data', 'points-cache.json');
+  try {
+    const cache = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+    const startBlock = parseInt(cache.raw?.startBlock, 10);
+    return Number.isInteger(startBlock) ? startBlock : null;
+  } catch (error) {
+    console.warn(`Could not read season start block from ${cachePath}:`, error.message);
+    return null;
+  }
+}
+
+// Block numbers that already have a snapshot (live or backfilled)
+async function getExistingBlocks(fromBlock, toBlock) {
+  const { data, error } = await supabase
+    .from('tvl_snapshots')
+    .select('block_number')
+    .gte('block_number', fromBlock)
+    .lte('block_number', toBlock);
+
+  if (error) {
+    throw new Error(`Failed to read existing snapshots: ${error.message}`);
+  }
+  return new Set((data || []).map((row) => Number(row.block_number)));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const startBlock = args.fromBlock ?? getSeasonStartBlock();
+  if (!Number.isInteger(startBlock)) {
+    throw new Error('No --from-block given and no season startBlock found');
+  }
+  if (!Number.isInteger(args.step) || args.step <= 0 || args.step % BLOCK_GRID !== 0) {
+    throw new Error(`--step must be a positive multiple of ${BLOCK_GRID} blocks`);
+  }
+  const fromBlock = Math.ceil(startBlock / BLOCK_GRID) * BLOCK_GRID;
+
+  let toBlock = args.toBlock;
+  if (!Number.isInteger(toBlock)) {
+    const latest = await fetchWeightedTvl();
+    toBlock = latest.block.number;
+  }
+
+  const blocks = [];
+  for (let block = fromBlock; block <= toBlock; block += args.step) {
+    blocks.push(block);
+  }
+
+  const existing = await getExistingBlocks(fromBlock, toBlock);
+  const pending = blocks.filter((block) => !existing.has(block));
+
+  console.log('='.repeat(60));
+  console.log(`[${new Date().toISOString()}] Backfilling blocks ${fromBlock} → ${toBlock} every ${args.step} blocks`);
+  console.log(`  - ${blocks.length} blocks, ${blocks.length - pending.length} already stored, ${pending.length} to backfill`);
+  console.log('='.repeat(60));
+
+  let saved = 0;
+  let failed = 0;
+  for (const block of pending) {
+    try {
+      const weightedTvlData = await fetchWeightedTvl(block);
+      const snapshot = {
+        ...buildSnapshot(weightedTvlData, null, new Date(weightedTvlData.block.timestamp * 1000)),
+        backfilled: true,
+      };
+
+      console.log(`[${new Date().toISOString()}] Block ${block} (${snapshot.capturedAt}): TVL $${snapshot.summary.totalTvlFormatted}, weighted $${snapshot.summary.weightedTvlFormatted}`);
+
+      if (args.dryRun) {
+        console.log(JSON.stringify(snapshot.summary, null, 2));
+      } else {
+        await saveToSupabase(snapshot);
+      }
+      saved++;
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] Failed to backfill block ${block}:`, error.message);
+      failed++;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY));
+  }
+
+  console.log('='.repeat(60));
+  console.log(`[${new Date().toISOString()}] Backfill finished: ${saved} ${args.dryRun ? 'built' : 'saved'}, ${failed} failed`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`[${new Date().toISOString()}] Backfill failed:`, error.message);
+  process.exit(1);
+});
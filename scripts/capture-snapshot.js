@@ -2,7 +2,8 @@
 /**
  * Scheduled Snapshot Capture Script
  *
- * This script fetches TVL data from the app's API and saves it to Supabase.
+ * This script fetches the weighted TVL table from the app's API (/api/weighted-tvl)
+ * and saves it to Supabase, so table_condensed is exactly what the endpoint serves.
  * Can be run via:
  * - Railway Cron Jobs
  * - GitHub Actions
@@ -71,14 +72,16 @@ async function warmupApp() {
   }
 }
 
-async function fetchTvlData(retryCount = 0) {
+// Live weighted TVL table, or the table rebuilt at a past block when `block` is given
+async function fetchWeightedTvl(block = null, retryCount = 0) {
   const MAX_RETRIES = 4;
   const RETRY_DELAY = 10000; // 10 seconds base delay
+  const url = block !== null ? `${BASE_URL}/api/weighted-tvl?block=${block}` : `${BASE_URL}/api/weighted-tvl`;
 
-  console.log(`[${new Date().toISOString()}] Fetching TVL data from ${BASE_URL}/api/tvl...`);
+  console.log(`[${new Date().toISOString()}] Fetching weighted TVL from ${url}...`);
 
   try {
-    const response = await fetch(`${BASE_URL}/api/tvl`, {
+    const response = await fetch(url, {
       headers: {
         'Content-Type': 'application/json',
       },
@@ -113,7 +116,7 @@ async function fetchTvlData(retryCount = 0) {
       const reason = error.isRailwayError ? 'Railway cold start detected' : 'Network error';
       console.log(`[${new Date().toISOString()}] ${reason}, retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
       await new Promise(resolve => setTimeout(resolve, delay));
-      return fetchTvlData(retryCount + 1);
+      return fetchWeightedTvl(block, retryCount + 1);
     }
 
     throw error;
@@ -127,11 +130,12 @@ async function fetchPointsData(retryCount = 0) {
   console.log(`[${new Date().toISOString()}] Fetching points data from ${BASE_URL}/api/points...`);
 
   try {
-    const response = await fetch(`${BASE_URL}/api/points`, {
+    // Fresh read: a cached total can be hours old and would be stored as current
+    const response = await fetch(`${BASE_URL}/api/points?fresh=true`, {
       headers: {
         'Content-Type': 'application/json',
       },
-      // Longer timeout - puppeteer can be slow on cold starts
+      // Longer timeout - the Puppeteer fallback can be slow on cold starts
       signal: AbortSignal.timeout(180000), // 3 minute timeout
     });
 
@@ -169,11 +173,43 @@ async function fetchPointsData(retryCount = 0) {
   }
 }
 
+// Data-quality checks against the previous good snapshot (src/lib/snapshotQuality.ts).
+// /api/snapshots runs them itself; direct inserts ask the app first.
+async function validateSnapshot(snapshot) {
+  const response = await fetch(`${BASE_URL}/api/snapshots/validate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(snapshot),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Snapshot validation API returned ${response.status}: ${await response.text()}`);
+  }
+
+  return response.json();
+}
+
+function logQuarantine(reasons) {
+  console.warn(`[${new Date().toISOString()}] Snapshot failed data-quality checks, saving as quarantined:`);
+  reasons.forEach((reason) => console.warn(`  - ${reason}`));
+}
+
+// Points-total problems that don't quarantine the snapshot
+function logWarnings(warnings = []) {
+  warnings.forEach((warning) => console.warn(`[${new Date().toISOString()}] Data-quality warning: ${warning}`));
+}
+
 async function saveToSupabase(snapshot) {
   if (!supabase) {
     throw new Error('Supabase not configured. Check NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
   }
 
+  const quality = await validateSnapshot(snapshot);
+  if (quality.quarantined) {
+    logQuarantine(quality.reasons);
+  }
+  logWarnings(quality.warnings);
+
   console.log(`[${new Date().toISOString()}] Saving snapshot to Supabase...`);
 
   const { error } = await supabase
@@ -181,6 +217,11 @@ async function saveToSupabase(snapshot) {
     .insert({
       captured_at: snapshot.capturedAt,
       captured_at_unix: snapshot.capturedAtUnix,
+      block_number: snapshot.blockNumber,
+      block_timestamp: snapshot.blockTimestamp,
+      backfilled: snapshot.backfilled || false,
+      quarantined: quality.quarantined,
+      quarantine_reasons: quality.quarantined ? quality.reasons : null,
       summary: snapshot.summary,
       table_condensed: snapshot.tableCondensed,
     });
@@ -208,62 +249,17 @@ async function saveViaApi(snapshot) {
     throw new Error(`Snapshot API returned ${response.status}: ${await response.text()}`);
   }
 
+  const result = await response.json();
+  if (result.quarantined) {
+    logQuarantine(result.reasons);
+  }
+  logWarnings(result.warnings);
+
   console.log(`[${new Date().toISOString()}] Snapshot saved via API successfully!`);
 }
 
-// Calculation functions (same logic as capture-tvl-data.js)
-
-// TVL Categories definition (same as capture-tvl-data.js)
-const TVL_CATEGORIES = [
-  {
-    id: "feb-2026",
-    title: "FEBRUARY 26, 2026 MARKET [ACTIVE]",
-    rows: [
-      { id: "yt-nusd-feb26", name: "YT NUSD Feb 26 (Gross)", type: "row", status: "display", boost: 50 },
-      { id: "pendle-fee-nusd", name: "Pendle Fee (5%)", type: "subrow", status: "active", boost: 50 },
-      { id: "yt-nusd-feb26-net", name: "YT NUSD Feb 26 NET", type: "subrow", status: "active", boost: 50 },
-      { id: "lp-nusd-feb26", name: "LP NUSD Feb 26 (SY Portion)", type: "row", status: "display", boost: 50 },
-      { id: "lp-excluded-nusd", name: "Excluded (20%)", type: "subrow", status: "display", boost: 0 },
-      { id: "lp-nusd-feb26-net", name: "LP NUSD Feb 26 (80%)", type: "subrow", status: "active", boost: 50 },
-      { id: "pt-nusd-feb26", name: "PT NUSD Feb 26", type: "row", status: "excluded" },
-    ],
-  },
-  {
-    id: "mar-2026",
-    title: "MARCH 5, 2026 MARKET [ACTIVE]",
-    rows: [
-      { id: "yt-snusd-mar26", name: "YT sNUSD Mar 5 (Gross)", type: "row", status: "display", boost: 25 },
-      { id: "pendle-fee-snusd", name: "Pendle Fee (5%)", type: "subrow", status: "active", boost: 25 },
-      { id: "yt-snusd-mar26-net", name: "YT sNUSD Mar 5 NET", type: "subrow", status: "active", boost: 25 },
-      { id: "lp-snusd-mar26", name: "LP sNUSD Mar 5 (SY Portion)", type: "row", status: "display", boost: 25 },
-      { id: "lp-excluded-snusd", name: "Excluded (20%)", type: "subrow", status: "display", boost: 0 },
-      { id: "lp-snusd-mar26-net", name: "LP sNUSD Mar 5 (80%)", type: "subrow", status: "active", boost: 25 },
-      { id: "pt-snusd-mar26", name: "PT sNUSD Mar 5", type: "row", status: "excluded" },
-    ],
-  },
-  {
-    id: "hold",
-    title: "HOLD",
-    rows: [
-      { id: "hold-nusd", name: "Hold NUSD (unlocked)", type: "row", status: "active", boost: 5 },
-      { id: "lock-nusd-3mo", name: "Lock NUSD (3 mo)", type: "subrow", status: "locked", boost: 6, baseBoost: 5 },
-      { id: "lock-nusd-6mo", name: "Lock NUSD (6 mo)", type: "subrow", status: "locked", boost: 15, baseBoost: 5 },
-      { id: "lock-nusd-9mo", name: "Lock NUSD (9 mo)", type: "subrow", status: "locked", boost: 25, baseBoost: 5 },
-      { id: "lock-nusd-12mo", name: "Lock NUSD (12 mo)", type: "subrow", status: "locked", boost: 30, baseBoost: 5 },
-      { id: "hold-snusd", name: "Hold sNUSD (unlocked)", type: "row", status: "active", boost: 1 },
-      { id: "lock-snusd-3mo", name: "Lock sNUSD (3 mo)", type: "subrow", status: "locked", boost: 8, baseBoost: 1 },
-      { id: "lock-snusd-6mo", name: "Lock sNUSD (6 mo)", type: "subrow", status: "locked", boost: 20, baseBoost: 1 },
-      { id: "lock-snusd-9mo", name: "Lock sNUSD (9 mo)", type: "subrow", status: "locked", boost: 30, baseBoost: 1 },
-      { id: "lock-snusd-12mo", name: "Lock sNUSD (12 mo)", type: "subrow", status: "locked", boost: 40, baseBoost: 1 },
-      { id: "hold-curve-lp", name: "Curve LP (unlocked)", type: "row", status: "active", boost: 5 },
-      { id: "curve-nusd-breakdown", name: "NUSD in pool", type: "subrow", status: "display", boost: 5 },
-      { id: "curve-usdc-breakdown", name: "USDC in pool", type: "subrow", status: "display", boost: 5 },
-      { id: "lock-curve-3mo", name: "Lock Curve LP (3 mo)", type: "subrow", status: "locked", boost: 4, baseBoost: 5 },
-      { id: "lock-curve-6mo", name: "Lock Curve LP (5-6 mo Max)", type: "subrow", status: "locked", boost: 10, baseBoost: 5 },
-      { id: "hold-upnusd", name: "Hold upNUSD", type: "row", status: "active", boost: 18 },
-    ],
-  },
-];
+// Formatting helpers. Row weighting and totals come from /api/weighted-tvl
+// (src/lib/weighting.ts), so the table, the API and snapshots always agree.
 
 function formatNumber(value, decimals = 2) {
   if (value >= 1_000_000_000) {
@@ -278,157 +274,58 @@ function formatNumber(value, decimals = 2) {
   return value.toFixed(decimals);
 }
 
-function calculateRowData(tvlData) {
-  const rowData = {};
-
-  // Initialize all rows
-  TVL_CATEGORIES.forEach(cat => {
-    cat.rows.forEach(row => {
-      rowData[row.id] = {
-        id: row.id,
-        name: row.name,
-        tvlAmount: 0,
-        boost: row.boost || 0,
-        baseBoost: row.baseBoost || 1,
-        status: row.status,
-        type: row.type,
-        weightedTvl: 0,
-        dailyPoints: 0,
-        share: 0,
-      };
-    });
-  });
-
-  // NUSD Market Data
-  if (tvlData.nusd) {
-    const nusdData = tvlData.nusd;
-    const ytNusdTvl = nusdData.ytTotalSupply * nusdData.underlyingPrice;
-    rowData["yt-nusd-feb26"].tvlAmount = ytNusdTvl;
-    rowData["pendle-fee-nusd"].tvlAmount = ytNusdTvl * 0.05;
-    rowData["yt-nusd-feb26-net"].tvlAmount = ytNusdTvl * 0.95;
-    rowData["lp-nusd-feb26"].tvlAmount = nusdData.lpSyTvl;
-    rowData["lp-excluded-nusd"].tvlAmount = nusdData.lpSyTvl * 0.2;
-    rowData["lp-nusd-feb26-net"].tvlAmount = nusdData.lpSyTvl * 0.8;
-    const ptNusdTvl = nusdData.ptTotalSupply * nusdData.ptPrice;
-    rowData["pt-nusd-feb26"].tvlAmount = ptNusdTvl;
-    rowData["hold-nusd"].tvlAmount = nusdData.holdTvl;
-  }
-
-  // sNUSD Market Data
-  if (tvlData.snusd) {
-    const snusdData = tvlData.snusd;
-    const ytSnusdTvl = snusdData.ytTotalSupply * snusdData.underlyingPrice;
-    rowData["yt-snusd-mar26"].tvlAmount = ytSnusdTvl;
-    rowData["pendle-fee-snusd"].tvlAmount = ytSnusdTvl * 0.05;
-    rowData["yt-snusd-mar26-net"].tvlAmount = ytSnusdTvl * 0.95;
-    rowData["lp-snusd-mar26"].tvlAmount = snusdData.lpSyTvl;
-    rowData["lp-excluded-snusd"].tvlAmount = snusdData.lpSyTvl * 0.2;
-    rowData["lp-snusd-mar26-net"].tvlAmount = snusdData.lpSyTvl * 0.8;
-    const ptSnusdTvl = snusdData.ptTotalSupply * snusdData.ptPrice;
-    rowData["pt-snusd-mar26"].tvlAmount = ptSnusdTvl;
-    rowData["hold-snusd"].tvlAmount = snusdData.holdTvl;
-  }
-
-  // upNUSD
-  if (tvlData.upnusd) {
-    rowData["hold-upnusd"].tvlAmount = tvlData.upnusd.tvl;
-  }
-
-  // Curve LP
-  if (tvlData.curve) {
-    rowData["hold-curve-lp"].tvlAmount = tvlData.curve.unlockedTvl;
-    rowData["curve-nusd-breakdown"].tvlAmount = tvlData.curve.nusdTvl;
-    rowData["curve-usdc-breakdown"].tvlAmount = tvlData.curve.usdcTvl;
-  }
-
-  // Lock contract data
-  if (tvlData.locks) {
-    rowData["lock-nusd-3mo"].tvlAmount = tvlData.locks.nusd.buckets["3mo"].tvl;
-    rowData["lock-nusd-6mo"].tvlAmount = tvlData.locks.nusd.buckets["6mo"].tvl;
-    rowData["lock-nusd-9mo"].tvlAmount = tvlData.locks.nusd.buckets["9mo"].tvl;
-    rowData["lock-nusd-12mo"].tvlAmount = tvlData.locks.nusd.buckets["12mo"].tvl;
-    rowData["lock-snusd-3mo"].tvlAmount = tvlData.locks.snusd.buckets["3mo"].tvl;
-    rowData["lock-snusd-6mo"].tvlAmount = tvlData.locks.snusd.buckets["6mo"].tvl;
-    rowData["lock-snusd-9mo"].tvlAmount = tvlData.locks.snusd.buckets["9mo"].tvl;
-    rowData["lock-snusd-12mo"].tvlAmount = tvlData.locks.snusd.buckets["12mo"].tvl;
-    rowData["lock-curve-3mo"].tvlAmount = tvlData.locks.curveLp.buckets["3mo"].tvl;
-    rowData["lock-curve-6mo"].tvlAmount = tvlData.locks.curveLp.buckets["6mo"].tvl;
-  }
-
-  // Calculate weighted TVL and daily points
-  let totalWeightedTvl = 0;
-  Object.values(rowData).forEach(row => {
-    if (row.status === "excluded") {
-      row.weightedTvl = 0;
-      row.dailyPoints = 0;
-    } else {
-      const effectiveBoost = row.baseBoost ? row.baseBoost * row.boost : row.boost;
-      row.weightedTvl = row.tvlAmount * effectiveBoost;
-      row.dailyPoints = row.weightedTvl;
-    }
-    if (row.status === "active" || row.status === "locked") {
-      totalWeightedTvl += row.weightedTvl;
-    }
-  });
-
-  // Calculate share percentages
-  Object.values(rowData).forEach(row => {
-    if (totalWeightedTvl > 0 && (row.status === "active" || row.status === "locked")) {
-      row.share = (row.weightedTvl / totalWeightedTvl) * 100;
-    } else {
-      row.share = 0;
-    }
-  });
-
-  return rowData;
-}
-
-function calculateSummary(rowData, pointsData) {
-  let totalRawTvl = 0;
-  let totalWeightedTvl = 0;
-
-  Object.values(rowData).forEach(row => {
-    if (row.status === "active" || row.status === "locked") {
-      totalRawTvl += row.tvlAmount;
-      totalWeightedTvl += row.weightedTvl;
-    }
-  });
+function calculateSummary(weightedTvlData, pointsData) {
+  const { totalTvl, weightedTvl, estDailyPoints, estWeeklyPoints, estMonthlyPoints } = weightedTvlData.summary;
 
   return {
     s1RewardsIssued: pointsData?.totalPoints || 0,
     s1RewardsIssuedFormatted: pointsData?.totalPointsFormatted || "N/A",
     participantCount: pointsData?.participantCount || 0,
-    totalTvl: totalRawTvl,
-    totalTvlFormatted: formatNumber(totalRawTvl),
-    weightedTvl: totalWeightedTvl,
-    weightedTvlFormatted: formatNumber(totalWeightedTvl),
-    estDailyPoints: totalWeightedTvl,
-    estDailyPointsFormatted: formatNumber(totalWeightedTvl),
-    estWeeklyPoints: totalWeightedTvl * 7,
-    estWeeklyPointsFormatted: formatNumber(totalWeightedTvl * 7),
-    estMonthlyPoints: totalWeightedTvl * 30,
-    estMonthlyPointsFormatted: formatNumber(totalWeightedTvl * 30),
+    totalTvl,
+    totalTvlFormatted: formatNumber(totalTvl),
+    weightedTvl,
+    weightedTvlFormatted: formatNumber(weightedTvl),
+    estDailyPoints,
+    estDailyPointsFormatted: formatNumber(estDailyPoints),
+    estWeeklyPoints,
+    estWeeklyPointsFormatted: formatNumber(estWeeklyPoints),
+    estMonthlyPoints,
+    estMonthlyPointsFormatted: formatNumber(estMonthlyPoints),
+    ...(pointsData?.timestamp && { pointsCapturedAt: pointsData.timestamp }),
+    // Per chain season program; the combined supply is their sum
+    ...(pointsData?.chains && {
+      pointsByChain: Object.fromEntries(
+        Object.entries(pointsData.chains).map(([chain, totals]) => [
+          chain,
+          { totalPoints: totals.totalPoints, participantCount: totals.participantCount },
+        ])
+      ),
+    }),
   };
 }
 
-function formatTableData(rowData) {
-  const table = [];
-  TVL_CATEGORIES.forEach(cat => {
-    table.push({
-      category: cat.title,
-      rows: cat.rows.map(row => {
-        const data = rowData[row.id];
-        return {
-          id: data.id,
-          tvlAmount: data.tvlAmount,
-          weightedTvl: data.weightedTvl,
-          dailyPoints: data.dailyPoints,
-          share: data.share,
-        };
-      }),
-    });
-  });
-  return table;
+// Snapshot in the tvl-history.json structure, plus the block the endpoint pinned its reads to.
+// The condensed table is stored as served by /api/weighted-tvl.
+function buildSnapshot(weightedTvlData, pointsData, capturedAt = new Date()) {
+  if (!weightedTvlData.summary || !weightedTvlData.tableCondensed) {
+    throw new Error('Weighted TVL API response has no table - is the app up to date?');
+  }
+  // A failed read is reported as 0 (or a $1 price), so never store a snapshot built on one
+  const degraded = weightedTvlData.provenance?.degraded;
+  if (!degraded) {
+    throw new Error('Weighted TVL API response has no provenance - is the app up to date?');
+  }
+  if (degraded.length > 0) {
+    throw new Error(`Refusing to save snapshot, degraded critical fields: ${degraded.join(', ')}`);
+  }
+  return {
+    capturedAt: capturedAt.toISOString(),
+    capturedAtUnix: Math.floor(capturedAt.getTime() / 1000),
+    blockNumber: weightedTvlData.block?.number ?? null,
+    blockTimestamp: weightedTvlData.block?.timestamp ?? null,
+    summary: calculateSummary(weightedTvlData, pointsData),
+    tableCondensed: weightedTvlData.tableCondensed,
+  };
 }
 
 async function main() {
@@ -440,40 +337,43 @@ async function main() {
     // Warmup the Railway app to handle cold starts
     await warmupApp();
 
-    // Fetch TVL data (required)
-    const tvlData = await fetchTvlData();
+    // Fetch the weighted TVL table (required)
+    const weightedTvlData = await fetchWeightedTvl();
 
     // Fetch points data (optional - continue if it fails)
     let pointsData = null;
     try {
       pointsData = await fetchPointsData();
+      // The last snapshot's totals aren't a new reading; don't store them again
+      if (pointsData.source === 'snapshot') {
+        console.warn(`[${new Date().toISOString()}] Warning: Points API unreachable, /api/points served the last snapshot (${pointsData.timestamp})`);
+        console.warn(`[${new Date().toISOString()}] Continuing with snapshot using null points data...`);
+        pointsData = null;
+      } else if (pointsData.isStale) {
+        // The refresh failed and the cached total came back instead
+        console.warn(`[${new Date().toISOString()}] Warning: Points refresh failed, /api/points served a cached total from ${pointsData.timestamp}`);
+        console.warn(`[${new Date().toISOString()}] Continuing with snapshot using null points data...`);
+        pointsData = null;
+      } else {
+        console.log(`[${new Date().toISOString()}] Points served by source: ${pointsData.source}`);
+      }
     } catch (pointsError) {
       console.warn(`[${new Date().toISOString()}] Warning: Failed to fetch points data:`, pointsError.message);
       console.warn(`[${new Date().toISOString()}] Continuing with snapshot using null points data...`);
     }
 
-    // Calculate row data using the same logic as capture-tvl-data.js
-    const rowData = calculateRowData(tvlData);
-    
-    // Calculate summary
-    const summary = calculateSummary(rowData, pointsData);
-    
-    // Format table data
-    const tableData = formatTableData(rowData);
-
-    // Build the snapshot (matching tvl-history.json structure)
-    const now = new Date();
-    const snapshot = {
-      capturedAt: now.toISOString(),
-      capturedAtUnix: Math.floor(now.getTime() / 1000),
-      summary: summary,
-      tableCondensed: tableData,
-    };
+    // Summary and table from the weighting engine, plus points totals
+    const snapshot = buildSnapshot(weightedTvlData, pointsData);
+    const summary = snapshot.summary;
 
     console.log(`[${new Date().toISOString()}] Snapshot built:`);
+    console.log(`  - Block: ${snapshot.blockNumber ?? 'unpinned'}`);
     console.log(`  - Total TVL: $${summary.totalTvlFormatted}`);
     console.log(`  - Weighted TVL: $${summary.weightedTvlFormatted}`);
     console.log(`  - S1 Rewards: ${summary.s1RewardsIssuedFormatted}`);
+    if (summary.pointsByChain) {
+      console.log(`  - Points by chain: ${Object.entries(summary.pointsByChain).map(([chain, totals]) => `${chain} ${formatNumber(totals.totalPoints)}`).join(', ')}`);
+    }
     console.log(`  - Participants: ${summary.participantCount}`);
     console.log(`  - Categories: ${snapshot.tableCondensed.length}`);
 
@@ -519,5 +419,14 @@ async function main() {
   }
 }
 
-// Run the script
-main();
+// Run the script (the backfill script reuses the helpers below)
+if (require.main === module) {
+  main();
+}
+
+module.exports = {
+  fetchWeightedTvl,
+  buildSnapshot,
+  saveToSupabase,
+  supabase,
+};
@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * Pendle Market Discovery Script
+ *
+ * Asks the app to scan the Pendle API for NUSD/sNUSD markets and record them
+ * in Supabase. Newly found markets are stored unapproved: they show up in the
+ * TVL table but do not count toward weighted TVL until approved via
+ * PATCH /api/markets/discover.
+ *
+ * Environment variables required:
+ * - BASE_URL: The deployed app URL (e.g., https://your-app.railway.app)
+ * - CRON_SECRET: Secret key for authenticating discovery runs
+ */
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const CRON_SECRET = process.env.CRON_SECRET;
+
+if (!CRON_SECRET) {
+  console.warn('WARNING: CRON_SECRET not set. Discovery via API will be unauthenticated.');
+}
+
+async function main() {
+  console.log(`[${new Date().toISOString()}] Discovering Pendle markets via ${BASE_URL}...`);
+
+  const response = await fetch(`${BASE_URL}/api/markets/discover`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(CRON_SECRET && { Authorization: `Bearer ${CRON_SECRET}` }),
+    },
+    signal: AbortSignal.timeout(60000),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Discovery failed: ${response.status} - ${text}`);
+  }
+
+  const result = await response.json();
+  const byAddress = new Map(result.markets.map((m) => [m.address, m]));
+
+  console.log(`Found ${result.markets.length} Neutrl markets on Pendle`);
+
+  if (result.newMarkets.length > 0) {
+    console.log('\nNew markets awaiting approval:');
+    result.newMarkets.forEach((address) => {
+      const m = byAddress.get(address);
+      console.log(`  ${m.name} (${m.underlying}) expiring ${m.expiry.split('T')[0]} - ${address}`);
+    });
+  }
+
+  if (result.maturedMarkets.length > 0) {
+    console.log('\nMatured markets:');
+    result.maturedMarkets.forEach((address) => {
+      const m = byAddress.get(address);
+      console.log(`  ${m.name} (${m.underlying}) expired ${m.expiry.split('T')[0]} - ${address}`);
+    });
+  }
+
+  console.log('\nDone');
+}
+
+main().catch((error) => {
+  console.error('Error:', error.message);
+  process.exit(1);
+});
@@ -1,11 +1,18 @@
-import { NextResponse } from "next/server";
-import { getAllSnapshots, TvlSnapshot } from "@/lib/supabase";
+import { NextRequest, NextResponse } from "next/server";
+import { getSnapshotHistory, TvlSnapshot } from "@/lib/supabase";
+import { calibrateEmission } from "@/lib/emission";
+import { LinearFit, linearFit, logLinearFit, mean, rollingMean, stdDev } from "@/lib/stats";
 import fs from "fs";
 import path from "path";
 
 interface HistorySnapshot {
   capturedAt: string;
   capturedAtUnix: number;
+  pointsCapturedAtUnix?: number; // When the points total was read, if stored
+  backfilled?: boolean; // Rebuilt at a past block: TVL only, no points total
+  quarantined?: boolean; // Failed data-quality checks at capture
+  quarantineReasons?: string[];
+  withoutSupply?: boolean; // No points total for the selected supply
   summary: {
     s1RewardsIssued: number;
     s1RewardsIssuedFormatted?: string;
@@ -20,9 +27,22 @@ interface HistorySnapshot {
     estWeeklyPointsFormatted?: string;
     estMonthlyPoints: number;
     estMonthlyPointsFormatted?: string;
+    combinedPointsIssued?: number;       // Every chain's season program, when stored
+    combinedParticipantCount?: number;
   };
 }
 
+// Analysis windows, counted back from the latest snapshot (null = full history)
+const ANALYSIS_WINDOWS = { "7d": 7, "14d": 14, "30d": 30, all: null } as const;
+type AnalysisWindow = keyof typeof ANALYSIS_WINDOWS;
+
+// Point supply the points figures use: Ethereum's season program or every chain's
+const POINT_SUPPLIES = ["ethereum", "combined"] as const;
+type PointSupply = typeof POINT_SUPPLIES[number];
+
+const SECONDS_PER_DAY = 86400;
+const ROLLING_DAYS = 7; // Rolling average length for the daily issuance series
+
 function formatLargeNumber(num: number): string {
   if (num >= 1e12) return (num / 1e12).toFixed(2) + "T";
   if (num >= 1e9) return (num / 1e9).toFixed(2) + "B";
@@ -50,6 +70,12 @@ function convertSnapshot(snapshot: TvlSnapshot): HistorySnapshot {
   return {
     capturedAt: snapshot.captured_at,
     capturedAtUnix: snapshot.captured_at_unix,
+    ...(snapshot.summary.pointsCapturedAt && {
+      pointsCapturedAtUnix: Math.floor(new Date(snapshot.summary.pointsCapturedAt).getTime() / 1000),
+    }),
+    backfilled: !!snapshot.backfilled,
+    quarantined: !!snapshot.quarantined,
+    quarantineReasons: snapshot.quarantine_reasons ?? [],
     summary: {
       s1RewardsIssued: snapshot.summary.s1RewardsIssued,
       s1RewardsIssuedFormatted: formatLargeNumber(snapshot.summary.s1RewardsIssued),
@@ -64,6 +90,34 @@ function convertSnapshot(snapshot: TvlSnapshot): HistorySnapshot {
       estWeeklyPointsFormatted: formatLargeNumber(snapshot.summary.estWeeklyPoints),
       estMonthlyPoints: snapshot.summary.estMonthlyPoints,
       estMonthlyPointsFormatted: formatLargeNumber(snapshot.summary.estMonthlyPoints),
+      ...combinedTotals(snapshot),
+    },
+  };
+}
+
+// Cross-chain totals from the per-chain points a snapshot stored, if any
+function combinedTotals(snapshot: TvlSnapshot) {
+  const chains = snapshot.summary.pointsByChain;
+  if (!chains) return {};
+  const all = Object.values(chains);
+  return {
+    combinedPointsIssued: all.reduce((sum, chain) => sum + chain.totalPoints, 0),
+    combinedParticipantCount: all.reduce((sum, chain) => sum + chain.participantCount, 0),
+  };
+}
+
+// Points figures switched to the combined supply. Snapshots without one (captured
+// before per-chain totals were stored) keep TVL only, like backfilled snapshots.
+function toCombinedSupply(snapshot: HistorySnapshot): HistorySnapshot {
+  const { combinedPointsIssued, combinedParticipantCount } = snapshot.summary;
+  if (combinedPointsIssued === undefined) return { ...snapshot, withoutSupply: true };
+  return {
+    ...snapshot,
+    summary: {
+      ...snapshot.summary,
+      s1RewardsIssued: combinedPointsIssued,
+      s1RewardsIssuedFormatted: formatLargeNumber(combinedPointsIssued),
+      participantCount: combinedParticipantCount ?? snapshot.summary.participantCount,
     },
   };
 }
@@ -81,12 +135,41 @@ function loadFromLocalFile(): HistorySnapshot[] | null {
   return null;
 }
 
-export async function GET() {
+// Time the points total was read: stored with newer snapshots, the capture time before that
+const pointsTime = (snapshot: HistorySnapshot) => snapshot.pointsCapturedAtUnix ?? snapshot.capturedAtUnix;
+
+// Compound daily growth (%) from a log-linear fit: e^slope - 1
+function growthFromFit(fit: LinearFit | null, fallback: number): number {
+  return fit ? (Math.exp(fit.slope) - 1) * 100 : fallback;
+}
+
+// GET: Inflation analysis over ?window=7d|14d|30d|all (default all). Rates come from
+// least-squares fits across every snapshot in the window rather than the two endpoints.
+// Quarantined snapshots are left out unless ?includeQuarantined=true. ?supply=combined
+// analyses every chain's points (Ethereum + Plasma) instead of Ethereum's (the default).
+export async function GET(request: NextRequest) {
+  const analysisWindow = request.nextUrl.searchParams.get("window") || "all";
+  if (!(analysisWindow in ANALYSIS_WINDOWS)) {
+    return NextResponse.json(
+      { error: "Invalid window parameter, expected 7d, 14d, 30d or all" },
+      { status: 400 }
+    );
+  }
+  const windowDays = ANALYSIS_WINDOWS[analysisWindow as AnalysisWindow];
+  const includeQuarantined = request.nextUrl.searchParams.get("includeQuarantined") === "true";
+  const supply = request.nextUrl.searchParams.get("supply") || "ethereum";
+  if (!POINT_SUPPLIES.includes(supply as PointSupply)) {
+    return NextResponse.json(
+      { error: "Invalid supply parameter, expected ethereum or combined" },
+      { status: 400 }
+    );
+  }
+
   try {
     let historyData: HistorySnapshot[] = [];
 
-    // Try to fetch from Supabase first
-    const supabaseSnapshots = await getAllSnapshots(500);
+    // Try to fetch from Supabase first; every row, so the newest aren't cut off
+    const supabaseSnapshots = await getSnapshotHistory();
 
     if (supabaseSnapshots.length > 0) {
       // Convert Supabase format to HistorySnapshot format
@@ -99,30 +182,72 @@ export async function GET() {
       }
     }
 
-    if (historyData.length < 2) {
+    // Sort by timestamp (oldest first)
+    historyData.sort((a, b) => a.capturedAtUnix - b.capturedAtUnix);
+
+    const quarantinedCount = historyData.filter((snapshot) => snapshot.quarantined).length;
+    if (!includeQuarantined) {
+      historyData = historyData.filter((snapshot) => !snapshot.quarantined);
+    }
+
+    if (windowDays !== null && historyData.length > 0) {
+      const cutoff = historyData[historyData.length - 1].capturedAtUnix - windowDays * SECONDS_PER_DAY;
+      historyData = historyData.filter((snapshot) => snapshot.capturedAtUnix >= cutoff);
+    }
+
+    // Calibrated points per weighted dollar from live snapshot intervals. Weighted TVL is
+    // Ethereum's, so this always uses Ethereum's points whatever the supply.
+    const withEthereumPoints = historyData.filter((snapshot) => !snapshot.backfilled && snapshot.summary.s1RewardsIssued > 0);
+    const emission = calibrateEmission(withEthereumPoints.map((snapshot) => ({
+      capturedAtUnix: pointsTime(snapshot),
+      pointsIssued: snapshot.summary.s1RewardsIssued,
+      weightedTvl: snapshot.summary.weightedTvl,
+    })));
+
+    if (supply === "combined") {
+      historyData = historyData.map(toCombinedSupply);
+    }
+    const hasPoints = (snapshot: HistorySnapshot) =>
+      !snapshot.backfilled && !snapshot.withoutSupply && snapshot.summary.s1RewardsIssued > 0;
+
+    // Backfilled snapshots extend the TVL history but carry no points total, and a live
+    // capture can miss it (kept with a warning), so points figures skip both
+    const pointsHistory = historyData.filter(hasPoints);
+
+    if (pointsHistory.length < 2) {
+      const snapshots = supply === "combined" ? "snapshots with cross-chain points" : "snapshots";
       return NextResponse.json({
-        error: "Need at least 2 snapshots to calculate inflation",
-        snapshotCount: historyData.length
+        error: windowDays !== null
+          ? `Need at least 2 ${snapshots} in the last ${windowDays} days to calculate inflation`
+          : `Need at least 2 ${snapshots} to calculate inflation`,
+        snapshotCount: pointsHistory.length
       }, { status: 400 });
     }
 
-    // Sort by timestamp (oldest first)
-    historyData.sort((a, b) => a.capturedAtUnix - b.capturedAtUnix);
-
     const oldest = historyData[0];
     const latest = historyData[historyData.length - 1];
+    const pointsOldest = pointsHistory[0];
+    const pointsLatest = pointsHistory[pointsHistory.length - 1];
 
     // Calculate calendar days (not time-based)
     const totalDays = getCalendarDaysDiff(oldest.capturedAt, latest.capturedAt);
     // Use at least 1 day for calculations to avoid division by zero
     const daysForCalc = Math.max(totalDays, 1);
+    const pointsDaysForCalc = Math.max(getCalendarDaysDiff(pointsOldest.capturedAt, pointsLatest.capturedAt), 1);
+
+    // Days since the first snapshot in the window - the x axis of every fit
+    const dayOffset = (snapshot: HistorySnapshot) => (snapshot.capturedAtUnix - oldest.capturedAtUnix) / SECONDS_PER_DAY;
+    const pointsX = pointsHistory.map((snapshot) => (pointsTime(snapshot) - oldest.capturedAtUnix) / SECONDS_PER_DAY);
+    const pointsY = pointsHistory.map((snapshot) => snapshot.summary.s1RewardsIssued);
 
-    // Points inflation
-    const pointsIssued = latest.summary.s1RewardsIssued - oldest.summary.s1RewardsIssued;
-    const actualDailyRate = pointsIssued / daysForCalc;
+    // Points inflation: the slope of a least-squares line through every points total,
+    // so one bad capture moves it far less than it moves an endpoint difference
+    const pointsIssued = pointsLatest.summary.s1RewardsIssued - pointsOldest.summary.s1RewardsIssued;
+    const pointsFit = linearFit(pointsX, pointsY);
+    const actualDailyRate = pointsFit ? pointsFit.slope : pointsIssued / pointsDaysForCalc;
 
     // Estimated vs actual comparison
-    const avgEstDailyPoints = (oldest.summary.estDailyPoints + latest.summary.estDailyPoints) / 2;
+    const avgEstDailyPoints = mean(pointsHistory.map((snapshot) => snapshot.summary.estDailyPoints));
     const efficiencyRate = (actualDailyRate / avgEstDailyPoints) * 100;
 
     // TVL changes
@@ -133,7 +258,7 @@ export async function GET() {
     const weightedTvlChangePercent = (weightedTvlChange / oldest.summary.weightedTvl) * 100;
 
     // Participant changes
-    const participantChange = latest.summary.participantCount - oldest.summary.participantCount;
+    const participantChange = pointsLatest.summary.participantCount - pointsOldest.summary.participantCount;
 
     // Projections based on actual rate
     const projectedDailyInflation = actualDailyRate;
@@ -141,7 +266,7 @@ export async function GET() {
     const projectedMonthlyInflation = actualDailyRate * 30;
 
     // Future projections
-    const currentTotal = latest.summary.s1RewardsIssued;
+    const currentTotal = pointsLatest.summary.s1RewardsIssued;
     const projectedIn7Days = currentTotal + (actualDailyRate * 7);
     const projectedIn30Days = currentTotal + (actualDailyRate * 30);
     const projectedIn90Days = currentTotal + (actualDailyRate * 90);
@@ -153,33 +278,83 @@ export async function GET() {
     const annualizedInflationPercent = dailyInflationPercent * 365;
     const annualizedInflation = projectedDailyInflation * 365;
 
-    // Calculate daily growth rates (% per day) based on calendar days
-    const tvlDailyGrowthRate = daysForCalc > 0
-      ? (Math.pow(latest.summary.totalTvl / oldest.summary.totalTvl, 1 / daysForCalc) - 1) * 100
-      : 0;
-    const weightedTvlDailyGrowthRate = daysForCalc > 0
-      ? (Math.pow(latest.summary.weightedTvl / oldest.summary.weightedTvl, 1 / daysForCalc) - 1) * 100
-      : 0;
-    const pointsDailyGrowthRate = daysForCalc > 0
-      ? (Math.pow(latest.summary.s1RewardsIssued / oldest.summary.s1RewardsIssued, 1 / daysForCalc) - 1) * 100
-      : 0;
-
-    // Build timeline data for chart (grouped by calendar date)
-    const timeline = historyData.map((snapshot, index) => {
-      const prev = index > 0 ? historyData[index - 1] : null;
-      const pointsChange = prev ? snapshot.summary.s1RewardsIssued - prev.summary.s1RewardsIssued : 0;
+    // Daily growth rates (% per day, compound) from log-linear fits over the window;
+    // the calendar-day endpoint rate is the fallback when a fit isn't possible
+    const tvlFit = logLinearFit(historyData.map(dayOffset), historyData.map((snapshot) => snapshot.summary.totalTvl));
+    const weightedTvlFit = logLinearFit(historyData.map(dayOffset), historyData.map((snapshot) => snapshot.summary.weightedTvl));
+    const pointsGrowthFit = logLinearFit(pointsX, pointsY);
+    const tvlDailyGrowthRate = growthFromFit(tvlFit,
+      (Math.pow(latest.summary.totalTvl / oldest.summary.totalTvl, 1 / daysForCalc) - 1) * 100);
+    const weightedTvlDailyGrowthRate = growthFromFit(weightedTvlFit,
+      (Math.pow(latest.summary.weightedTvl / oldest.summary.weightedTvl, 1 / daysForCalc) - 1) * 100);
+    const pointsDailyGrowthRate = growthFromFit(pointsGrowthFit,
+      (Math.pow(pointsLatest.summary.s1RewardsIssued / pointsOldest.summary.s1RewardsIssued, 1 / pointsDaysForCalc) - 1) * 100);
+
+    // Per-day issuance from the last live snapshot of each calendar day, with a rolling average
+    const lastPerDay = new Map<string, HistorySnapshot>();
+    pointsHistory.forEach((snapshot) => lastPerDay.set(getCalendarDate(snapshot.capturedAt), snapshot));
+    const days = [...lastPerDay.values()];
+    const issuance = days.slice(1).map((snapshot, i) => {
+      const gap = Math.max(getCalendarDaysDiff(days[i].capturedAt, snapshot.capturedAt), 1);
+      return (snapshot.summary.s1RewardsIssued - days[i].summary.s1RewardsIssued) / gap;
+    });
+    const rollingIssuance = rollingMean(issuance, ROLLING_DAYS);
+    const dailySeries = days.slice(1).map((snapshot, i) => ({
+      date: getCalendarDate(snapshot.capturedAt),
+      issuance: issuance[i],
+      issuanceFormatted: formatLargeNumber(issuance[i]),
+      rollingAverage: rollingIssuance[i],
+      rollingAverageFormatted: formatLargeNumber(rollingIssuance[i]),
+      weightedTvl: snapshot.summary.weightedTvl,
+      estDailyPoints: snapshot.summary.estDailyPoints,
+    }));
+
+    // How far each points total sits from the fitted line
+    const residuals = pointsFit
+      ? pointsHistory.map((snapshot, i) => {
+          const fitted = pointsFit.intercept + pointsFit.slope * pointsX[i];
+          return {
+            capturedAt: snapshot.capturedAt,
+            actual: pointsY[i],
+            fitted,
+            residual: pointsY[i] - fitted,
+          };
+        })
+      : [];
+
+    // Volatility: spread of daily issuance and of day-over-day weighted TVL moves
+    const issuanceStdDev = stdDev(issuance);
+    const issuanceMean = mean(issuance);
+    const weightedTvlByDay = new Map<string, number>();
+    historyData.forEach((snapshot) => weightedTvlByDay.set(getCalendarDate(snapshot.capturedAt), snapshot.summary.weightedTvl));
+    const dailyWeightedTvl = [...weightedTvlByDay.values()].filter((value) => value > 0);
+    const weightedTvlReturns = dailyWeightedTvl.slice(1).map((value, i) => Math.log(value / dailyWeightedTvl[i]));
+    const residualStdDev = stdDev(residuals.map((r) => r.residual));
+
+    // Build timeline data for chart (grouped by calendar date).
+    // Backfilled rows have null points; points change is against the previous live snapshot.
+    let prevPoints: number | null = null;
+    const timeline = historyData.map((snapshot) => {
+      const points = hasPoints(snapshot) ? snapshot.summary.s1RewardsIssued : null;
+      const pointsChange = points !== null && prevPoints !== null ? points - prevPoints : 0;
+      if (points !== null) prevPoints = points;
 
       return {
         capturedAt: snapshot.capturedAt,
         date: getCalendarDate(snapshot.capturedAt),
-        s1RewardsIssued: snapshot.summary.s1RewardsIssued,
-        s1RewardsIssuedFormatted: snapshot.summary.s1RewardsIssuedFormatted || formatLargeNumber(snapshot.summary.s1RewardsIssued),
+        backfilled: !!snapshot.backfilled,
+        quarantined: !!snapshot.quarantined,
+        quarantineReasons: snapshot.quarantineReasons ?? [],
+        s1RewardsIssued: points,
+        s1RewardsIssuedFormatted: points !== null
+          ? snapshot.summary.s1RewardsIssuedFormatted || formatLargeNumber(points)
+          : null,
         totalTvl: snapshot.summary.totalTvl,
         totalTvlFormatted: snapshot.summary.totalTvlFormatted || formatLargeNumber(snapshot.summary.totalTvl),
         weightedTvl: snapshot.summary.weightedTvl,
         weightedTvlFormatted: snapshot.summary.weightedTvlFormatted || formatLargeNumber(snapshot.summary.weightedTvl),
         estDailyPoints: snapshot.summary.estDailyPoints,
-        participantCount: snapshot.summary.participantCount,
+        participantCount: hasPoints(snapshot) ? snapshot.summary.participantCount : null,
         pointsChange,
         pointsChangeFormatted: formatLargeNumber(pointsChange),
       };
@@ -188,6 +363,8 @@ export async function GET() {
     const result = {
       timestamp: new Date().toISOString(),
       dataSource: supabaseSnapshots.length > 0 ? "supabase" : "local",
+      window: analysisWindow,
+      supply,
       dataRange: {
         from: oldest.capturedAt,
         to: latest.capturedAt,
@@ -195,15 +372,19 @@ export async function GET() {
         toDate: getCalendarDate(latest.capturedAt),
         totalDays,
         snapshotCount: historyData.length,
+        backfilledCount: historyData.filter((snapshot) => snapshot.backfilled).length,
+        withoutSupplyCount: historyData.filter((snapshot) => !snapshot.backfilled && snapshot.withoutSupply).length,
+        quarantinedCount,
+        includeQuarantined,
       },
       currentState: {
-        s1RewardsIssued: latest.summary.s1RewardsIssued,
-        s1RewardsIssuedFormatted: latest.summary.s1RewardsIssuedFormatted || formatLargeNumber(latest.summary.s1RewardsIssued),
+        s1RewardsIssued: pointsLatest.summary.s1RewardsIssued,
+        s1RewardsIssuedFormatted: pointsLatest.summary.s1RewardsIssuedFormatted || formatLargeNumber(pointsLatest.summary.s1RewardsIssued),
         totalTvl: latest.summary.totalTvl,
         totalTvlFormatted: latest.summary.totalTvlFormatted || formatLargeNumber(latest.summary.totalTvl),
         weightedTvl: latest.summary.weightedTvl,
         weightedTvlFormatted: latest.summary.weightedTvlFormatted || formatLargeNumber(latest.summary.weightedTvl),
-        participantCount: latest.summary.participantCount,
+        participantCount: pointsLatest.summary.participantCount,
         estDailyPoints: latest.summary.estDailyPoints,
         estDailyPointsFormatted: latest.summary.estDailyPointsFormatted || formatLargeNumber(latest.summary.estDailyPoints),
       },
@@ -216,6 +397,7 @@ export async function GET() {
         avgEstDailyPointsFormatted: formatLargeNumber(avgEstDailyPoints),
         efficiencyRate, // actual vs estimated %
       },
+      emission,
       tvlChanges: {
         totalTvlChange: tvlChange,
         totalTvlChangeFormatted: formatLargeNumber(Math.abs(tvlChange)),
@@ -253,6 +435,26 @@ export async function GET() {
         pointsDailyGrowthRate,
         pointsWeeklyGrowthRate: pointsDailyGrowthRate * 7,
       },
+      analysis: {
+        rollingDays: ROLLING_DAYS,
+        dailySeries,
+        fits: {
+          points: pointsFit,               // Linear: slope = points per day
+          pointsGrowth: pointsGrowthFit,   // Log-linear: slope = ln(1 + daily growth)
+          totalTvl: tvlFit,
+          weightedTvl: weightedTvlFit,
+        },
+        residuals,
+        volatility: {
+          issuanceStdDev,
+          issuanceStdDevFormatted: formatLargeNumber(issuanceStdDev),
+          // Std dev relative to mean daily issuance; null without issuance
+          issuanceCv: issuanceMean > 0 ? issuanceStdDev / issuanceMean : null,
+          weightedTvlDailyVolatility: stdDev(weightedTvlReturns) * 100, // % per day
+          residualStdDev,
+          residualStdDevFormatted: formatLargeNumber(residualStdDev),
+        },
+      },
       timeline,
     };
 
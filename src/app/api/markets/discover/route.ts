@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPendleMarkets,
+  savePendleMarkets,
+  setPendleMarketApproval,
+  isSupabaseConfigured,
+} from "@/lib/supabase";
+import { discoverNeutrlMarkets, fromPendleMarketRecord } from "@/lib/marketDiscovery";
+
+// Secret key for protecting write operations
+const CRON_SECRET = process.env.CRON_SECRET;
+
+function isAuthorized(request: NextRequest): boolean {
+  const authHeader = request.headers.get("authorization");
+  const providedSecret = authHeader?.replace("Bearer ", "");
+  return !CRON_SECRET || providedSecret === CRON_SECRET;
+}
+
+// GET: Recorded Neutrl markets with their approval state
+// Falls back to a live (unpersisted) discovery run when Supabase is not configured
+export async function GET() {
+  try {
+    const markets = isSupabaseConfigured
+      ? (await getPendleMarkets()).map(fromPendleMarketRecord)
+      : await discoverNeutrlMarkets();
+
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      markets,
+    });
+  } catch (error) {
+    console.error("Error fetching discovered markets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch discovered markets" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Run discovery against the Pendle API and record the results (protected by CRON_SECRET)
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const discovered = await discoverNeutrlMarkets();
+
+    // Compare against what was already recorded so only first sightings count as new
+    const previous = new Set((await getPendleMarkets()).map((m) => m.address));
+    const newMarkets = discovered.filter((m) => m.status === "new" && !previous.has(m.address));
+    const maturedMarkets = discovered.filter((m) => m.status === "matured");
+
+    const result = await savePendleMarkets(
+      discovered.map((m) => ({
+        address: m.address,
+        name: m.name,
+        underlying: m.underlying,
+        expiry: m.expiry,
+        sy: m.sy,
+        pt: m.pt,
+        yt: m.yt,
+        status: m.status,
+      }))
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || "Failed to save discovered markets" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      markets: discovered,
+      newMarkets: newMarkets.map((m) => m.address),
+      maturedMarkets: maturedMarkets.map((m) => m.address),
+    });
+  } catch (error) {
+    console.error("Error discovering markets:", error);
+    return NextResponse.json(
+      { error: "Failed to discover markets" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Approve or reject a discovered market (protected by CRON_SECRET)
+export async function PATCH(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { address, approved, pointsMultiplier } = body;
+
+    if (!address || typeof approved !== "boolean") {
+      return NextResponse.json(
+        { error: "Missing required fields: address, approved" },
+        { status: 400 }
+      );
+    }
+
+    // Optional; when set it becomes the market's boost, so it has to be a usable number
+    if (pointsMultiplier !== undefined && (typeof pointsMultiplier !== "number" || !Number.isFinite(pointsMultiplier) || pointsMultiplier < 0)) {
+      return NextResponse.json(
+        { error: "Invalid pointsMultiplier, expected a finite number of at least 0" },
+        { status: 400 }
+      );
+    }
+
+    const result = await setPendleMarketApproval(address, approved, pointsMultiplier);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || "Failed to update market" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating market approval:", error);
+    return NextResponse.json(
+      { error: "Failed to update market approval" },
+      { status: 500 }
+    );
+  }
+}
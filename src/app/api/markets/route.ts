@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PENDLE_API_BASE, CHAIN_ID } from "@/lib/constants";
+import { fetchPendleMarket } from "@/lib/pendle";
+import { cacheHeader, cached } from "@/lib/cache";
+
+// Pendle market data is cached for 10 seconds, then served stale for up to a minute while it refreshes
+const CACHE_TTL = 10 * 1000;
+const CACHE_STALE = 60 * 1000;
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -13,22 +18,13 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const response = await fetch(
-      `${PENDLE_API_BASE}/core/v1/${CHAIN_ID}/markets/${address}`,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        next: { revalidate: 10 }, // Cache for 10 seconds
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Pendle API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
+    const result = await cached(`markets:${address.toLowerCase()}`, () => fetchPendleMarket(address), {
+      ttlMs: CACHE_TTL,
+      staleMs: CACHE_STALE,
+    });
+    return NextResponse.json(result.value, {
+      headers: { "X-Cache": cacheHeader(result.status) },
+    });
   } catch (error) {
     console.error("Error fetching market data:", error);
     return NextResponse.json(
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PENDLE_MARKETS, UNDERLYINGS, NEUTRL_CONTRACTS, UnderlyingKey } from "@/lib/markets";
+import { getPendleMarkets, isSupabaseConfigured } from "@/lib/supabase";
+import { fromPendleMarketRecord, getTrackedMarkets } from "@/lib/marketDiscovery";
+import { ETHERSCAN_API_KEY } from "@/lib/etherscan";
+import { TokenRead, balanceOf, getDataProvider } from "@/lib/dataProvider";
+import { getLockData } from "@/lib/locks";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+// GET: Token balances and active locks for one wallet, e.g. /api/portfolio?address=0x...
+// Amounts are raw token units; the client prices them against /api/tvl
+export async function GET(request: NextRequest) {
+  if (!ETHERSCAN_API_KEY) {
+    return NextResponse.json(
+      { error: "Etherscan API key not configured" },
+      { status: 500 }
+    );
+  }
+
+  const address = request.nextUrl.searchParams.get("address");
+  if (!address || !ADDRESS_PATTERN.test(address)) {
+    return NextResponse.json(
+      { error: "Missing or invalid address parameter" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Same market set as /api/tvl so every table row can be matched
+    const trackedMarkets = isSupabaseConfigured
+      ? getTrackedMarkets((await getPendleMarkets()).map(fromPendleMarketRecord))
+      : [];
+    const allMarkets = [...PENDLE_MARKETS, ...trackedMarkets];
+
+    // Underlying tokens (unlocked, in the wallet), upNUSD and Curve LP
+    const underlyingKeys = Object.keys(UNDERLYINGS) as UnderlyingKey[];
+    const reads: Record<string, TokenRead> = {};
+    for (const key of underlyingKeys) {
+      reads[key] = balanceOf(UNDERLYINGS[key].address, address);
+    }
+    reads.upnusd = balanceOf(NEUTRL_CONTRACTS.upnusd, address);
+    reads.curveLp = balanceOf(NEUTRL_CONTRACTS.curvePool, address);
+
+    // YT, PT and LP (the market contract is the LP token) per Pendle market
+    for (const m of allMarkets) {
+      reads[`yt:${m.key}`] = balanceOf(m.yt, address);
+      reads[`pt:${m.key}`] = balanceOf(m.pt, address);
+      reads[`lp:${m.key}`] = balanceOf(m.market, address);
+    }
+
+    const values = await getDataProvider().read(reads);
+
+    const underlyings = {} as Record<UnderlyingKey, number>;
+    for (const key of underlyingKeys) {
+      underlyings[key] = values[key] || 0;
+    }
+    const upnusd = values.upnusd || 0;
+    const curveLp = values.curveLp || 0;
+
+    const markets: Record<string, { yt: number; pt: number; lp: number }> = {};
+    for (const m of allMarkets) {
+      markets[m.key] = {
+        yt: values[`yt:${m.key}`] || 0,
+        pt: values[`pt:${m.key}`] || 0,
+        lp: values[`lp:${m.key}`] || 0,
+      };
+    }
+
+    // AssetLocked events filtered to this wallet
+    const locks = await getLockData(address);
+
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      address: address.toLowerCase(),
+      balances: {
+        nusd: underlyings.nusd,
+        snusd: underlyings.snusd,
+        upnusd,
+        curveLp,
+      },
+      markets,
+      locks,
+    });
+  } catch (error) {
+    console.error("Error fetching portfolio:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch portfolio" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { saveSnapshot, getAllSnapshots, getLatestSnapshot, getSnapshotCount } from '@/lib/supabase';
+import { assessSnapshot, parseSnapshotBody } from '@/lib/snapshotQuality';
 
 // Secret key for protecting write operations
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -35,7 +36,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST: Save a new snapshot (protected by CRON_SECRET)
+// POST: Save a new snapshot (protected by CRON_SECRET). Snapshots that fail the
+// data-quality checks are saved as quarantined rather than rejected.
 export async function POST(request: NextRequest) {
   try {
     // Verify authorization
@@ -49,21 +51,27 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
 
     // Validate required fields
-    if (!body.capturedAt || !body.summary || !body.tableCondensed) {
+    const snapshot = parseSnapshotBody(body);
+    if (!snapshot) {
       return NextResponse.json(
         { error: 'Missing required fields: capturedAt, summary, tableCondensed' },
         { status: 400 }
       );
     }
 
-    const snapshot = {
-      captured_at: body.capturedAt,
-      captured_at_unix: body.capturedAtUnix || Math.floor(new Date(body.capturedAt).getTime() / 1000),
-      summary: body.summary,
-      table_condensed: body.tableCondensed,
-    };
+    const quality = await assessSnapshot(snapshot);
+    if (quality.quarantined) {
+      console.warn(`Quarantining snapshot ${snapshot.captured_at}:`, quality.reasons);
+    }
+    if (quality.warnings.length > 0) {
+      console.warn(`Snapshot ${snapshot.captured_at} warnings:`, quality.warnings);
+    }
 
-    const result = await saveSnapshot(snapshot);
+    const result = await saveSnapshot({
+      ...snapshot,
+      quarantined: quality.quarantined,
+      quarantine_reasons: quality.quarantined ? quality.reasons : null,
+    });
 
     if (!result.success) {
       return NextResponse.json(
@@ -72,7 +80,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ success: true, message: 'Snapshot saved successfully' });
+    return NextResponse.json({
+      success: true,
+      message: quality.quarantined ? 'Snapshot saved as quarantined' : 'Snapshot saved successfully',
+      quarantined: quality.quarantined,
+      reasons: quality.reasons,
+      warnings: quality.warnings,
+    });
   } catch (error) {
     console.error('Error saving snapshot:', error);
     return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assessSnapshot, parseSnapshotBody } from '@/lib/snapshotQuality';
+
+// POST: Run the data-quality checks on a snapshot without saving it. Used by the
+// snapshot scripts before they insert directly with the service role key.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const snapshot = parseSnapshotBody(body);
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'Missing required fields: capturedAt, summary, tableCondensed' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await assessSnapshot(snapshot));
+  } catch (error) {
+    console.error('Error validating snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate snapshot' },
+      { status: 500 }
+    );
+  }
+}
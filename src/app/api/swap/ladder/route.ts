@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PENDLE_MARKETS } from "@/lib/markets";
+import { cacheHeader, cached } from "@/lib/cache";
+import { buildSwapLadder } from "@/lib/swapLadder";
+
+// A ladder is a dozen quotes, so it is cached for 2 minutes and served stale for 5 more
+const CACHE_TTL = 2 * 60 * 1000;
+const CACHE_STALE = 5 * 60 * 1000;
+
+// GET: YT buy quotes from $1k to $5M for a registered market (?market=<address>), with
+// price impact, fees and implied APY paid at each size plus recommended chunk sizes
+export async function GET(request: NextRequest) {
+  const address = request.nextUrl.searchParams.get("market")?.toLowerCase();
+  const market = address ? PENDLE_MARKETS.find((m) => m.market === address) : undefined;
+
+  if (!market) {
+    return NextResponse.json(
+      { error: "A registered market address is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await cached(`swap-ladder:${market.market}`, () => buildSwapLadder(market.market), {
+      ttlMs: CACHE_TTL,
+      staleMs: CACHE_STALE,
+    });
+    return NextResponse.json(result.value, {
+      headers: { "X-Cache": cacheHeader(result.status) },
+    });
+  } catch (error) {
+    console.error("Error building swap ladder:", error);
+    return NextResponse.json(
+      { error: "Failed to build swap ladder" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PENDLE_API_BASE, CHAIN_ID } from "@/lib/constants";
-import { SwapQuoteRequest, SwapQuoteResponse } from "@/lib/types";
+import { PENDLE_MARKETS, UNDERLYINGS } from "@/lib/markets";
+import { fetchSwapQuote } from "@/lib/pendle";
+import { SwapQuoteType } from "@/lib/types";
 
+const QUOTE_TYPES: SwapQuoteType[] = ["yt", "pt", "lp", "yt-sell"];
+
+// POST { market, netFromTaker, type? }: quote for buying YT (default), PT or LP (zap in)
+// with netFromTaker of the market's underlying, or for selling netFromTaker YT ("yt-sell"),
+// as a NormalizedSwapQuote
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { market, netFromTaker } = body;
+    const { market, netFromTaker, type = "yt" } = body;
 
     if (!market || !netFromTaker) {
       return NextResponse.json(
@@ -14,30 +20,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const swapRequest: SwapQuoteRequest = {
-      chainId: CHAIN_ID,
-      market,
-      netFromTaker,
-      type: 2, // YT type
-      cappedAmountToMarket: "9999999999999999999999999",
-    };
-
-    const response = await fetch(
-      `${PENDLE_API_BASE}/limit-order/v2/limit-order/market-order`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(swapRequest),
-      }
-    );
+    if (!QUOTE_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: "Invalid type, expected yt, pt, lp or yt-sell" },
+        { status: 400 }
+      );
+    }
 
-    if (!response.ok) {
-      throw new Error(`Pendle API error: ${response.status}`);
+    // Zaps name the token going in, so the market has to be a registered one
+    const config = PENDLE_MARKETS.find((m) => m.market === String(market).toLowerCase());
+    if (type === "lp" && !config) {
+      return NextResponse.json(
+        { error: "LP quotes need a registered market address" },
+        { status: 400 }
+      );
     }
 
-    const data: SwapQuoteResponse = await response.json();
+    const tokenIn = config ? UNDERLYINGS[config.underlying].address : "";
+    const data = await fetchSwapQuote(type, market, tokenIn, netFromTaker);
     return NextResponse.json(data);
   } catch (error) {
     console.error("Error fetching swap quote:", error);
@@ -47,4 +47,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
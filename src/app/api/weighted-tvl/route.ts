@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ETHERSCAN_API_KEY } from "@/lib/etherscan";
+import { BLOCK_PARAM_GRID, getCachedTvlData, parseBlockParam } from "@/lib/tvl";
+import { cacheHeader } from "@/lib/cache";
+import { toTableCondensed } from "@/lib/weighting";
+import type { TvlCategory } from "@/lib/supabase";
+import type { RowProvenance } from "@/lib/provenance";
+
+const CSV_COLUMNS = ["category", "id", "name", "status", "tvlAmount", "boost", "weightedTvl", "share", "dailyPoints", "provenance"];
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per row, grouped by category in table order
+function toCsv(tableCondensed: TvlCategory[], rowProvenance: Record<string, RowProvenance>): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  tableCondensed.forEach((cat) => cat.rows.forEach((row) => {
+    lines.push([
+      cat.category,
+      row.id,
+      row.name,
+      row.status,
+      row.tvlAmount,
+      row.boost,
+      row.weightedTvl,
+      row.share,
+      row.dailyPoints,
+      rowProvenance[row.id]?.status ?? "live",
+    ].map(csvCell).join(","));
+  }));
+  return lines.join("\n") + "\n";
+}
+
+// GET: The full points table (every row's TVL, boost, weighted TVL, share and daily points)
+// plus summary totals - the same table and totals the snapshot job stores - and the
+// provenance of the inputs (the snapshot job refuses degraded critical fields).
+// ?block=N pins the reads to a past block (N a multiple of BLOCK_PARAM_GRID), ?format=csv
+// returns the rows as CSV.
+export async function GET(request: NextRequest) {
+  if (!ETHERSCAN_API_KEY) {
+    return NextResponse.json(
+      { error: "Etherscan API key not configured" },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const requestedBlock = parseBlockParam(searchParams.get("block"));
+  if (requestedBlock === null) {
+    return NextResponse.json(
+      { error: `Invalid block parameter, expected a multiple of ${BLOCK_PARAM_GRID}` },
+      { status: 400 }
+    );
+  }
+
+  const format = searchParams.get("format") || "json";
+  if (format !== "json" && format !== "csv") {
+    return NextResponse.json(
+      { error: "Invalid format parameter, expected json or csv" },
+      { status: 400 }
+    );
+  }
+
+  const result = await getCachedTvlData(requestedBlock);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 500 }
+    );
+  }
+
+  const { timestamp, block, weighting, provenance } = result.data;
+  const tableCondensed = toTableCondensed(weighting.categories);
+
+  if (format === "csv") {
+    return new NextResponse(toCsv(tableCondensed, provenance.rows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="weighted-tvl-${block.number}.csv"`,
+        "X-Cache": cacheHeader(result.cacheStatus),
+      },
+    });
+  }
+
+  return NextResponse.json({
+    timestamp,
+    block,
+    summary: weighting.summary,
+    tableCondensed,
+    provenance,
+  }, {
+    headers: { "X-Cache": cacheHeader(result.cacheStatus) },
+  });
+}
@@ -5,9 +5,24 @@ import Link from "next/link";
 import ThemeToggle from "@/components/ThemeToggle";
 import InflationChart from "@/components/InflationChart";
 import PointsPredictor from "@/components/PointsPredictor";
+import type { InflationAnalysis, InflationWindow, PointSupply } from "@/hooks/useInflationData";
+
+const WINDOW_OPTIONS: { value: InflationWindow; label: string }[] = [
+  { value: "7d", label: "7D" },
+  { value: "14d", label: "14D" },
+  { value: "30d", label: "30D" },
+  { value: "all", label: "All" },
+];
+
+const SUPPLY_OPTIONS: { value: PointSupply; label: string }[] = [
+  { value: "ethereum", label: "Ethereum" },
+  { value: "combined", label: "All Chains" },
+];
 
 interface InflationData {
   timestamp: string;
+  window: InflationWindow;
+  supply: PointSupply;
   dataRange: {
     from: string;
     to: string;
@@ -15,6 +30,10 @@ interface InflationData {
     toDate: string;
     totalDays: number;
     snapshotCount: number;
+    backfilledCount: number;
+    withoutSupplyCount: number;
+    quarantinedCount: number;  // Failed data-quality checks
+    includeQuarantined: boolean;
   };
   currentState: {
     s1RewardsIssued: number;
@@ -76,28 +95,57 @@ interface InflationData {
   timeline: Array<{
     capturedAt: string;
     date: string;
-    s1RewardsIssued: number;
-    s1RewardsIssuedFormatted: string;
+    backfilled: boolean;
+    quarantined: boolean;
+    quarantineReasons: string[];
+    s1RewardsIssued: number | null;
+    s1RewardsIssuedFormatted: string | null;
     totalTvl: number;
     totalTvlFormatted: string;
     weightedTvl: number;
     weightedTvlFormatted: string;
     estDailyPoints: number;
-    participantCount: number;
+    participantCount: number | null;
     pointsChange: number;
     pointsChangeFormatted: string;
   }>;
+  analysis: InflationAnalysis;
 }
 
 export default function InflationPage() {
   const [data, setData] = useState<InflationData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [analysisWindow, setAnalysisWindow] = useState<InflationWindow>("all");
+  const [includeQuarantined, setIncludeQuarantined] = useState(false);
+  const [supply, setSupply] = useState<PointSupply>("ethereum");
+
+  const selectWindow = (value: InflationWindow) => {
+    if (value === analysisWindow) return;
+    setAnalysisWindow(value);
+    setLoading(true);
+    setError(null);
+  };
+
+  const selectSupply = (value: PointSupply) => {
+    if (value === supply) return;
+    setSupply(value);
+    setLoading(true);
+    setError(null);
+  };
+
+  const toggleQuarantined = () => {
+    setIncludeQuarantined(!includeQuarantined);
+    setLoading(true);
+    setError(null);
+  };
 
   useEffect(() => {
     async function fetchData() {
       try {
-        const response = await fetch("/api/inflation");
+        const params = new URLSearchParams({ window: analysisWindow, supply });
+        if (includeQuarantined) params.set("includeQuarantined", "true");
+        const response = await fetch(`/api/inflation?${params}`);
         if (!response.ok) {
           const err = await response.json();
           throw new Error(err.error || "Failed to fetch");
@@ -105,13 +153,14 @@ export default function InflationPage() {
         const result = await response.json();
         setData(result);
       } catch (err) {
+        setData(null);
         setError(err instanceof Error ? err.message : "Unknown error");
       } finally {
         setLoading(false);
       }
     }
     fetchData();
-  }, []);
+  }, [analysisWindow, includeQuarantined, supply]);
 
   const formatDate = (iso: string) => {
     return new Date(iso).toLocaleString();
@@ -154,6 +203,53 @@ export default function InflationPage() {
       {/* Main Content */}
       <main className="py-8">
         <div className="max-w-6xl mx-auto px-6 space-y-8">
+          {/* Analysis Window */}
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-black/50 dark:text-white/50 uppercase">Analysis Window</p>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={toggleQuarantined}
+                className={`px-4 py-2 text-xs font-bold uppercase border-2 transition-colors ${
+                  includeQuarantined
+                    ? "bg-black dark:bg-white text-white dark:text-black border-black dark:border-white"
+                    : "bg-transparent text-black dark:text-white border-black/30 dark:border-white/30 hover:border-black dark:hover:border-white"
+                }`}
+              >
+                Include Quarantined
+              </button>
+              <div className="flex border-2 border-black dark:border-white">
+                {SUPPLY_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => selectSupply(option.value)}
+                    className={`px-4 py-2 text-xs font-bold uppercase transition-colors ${
+                      supply === option.value
+                        ? "bg-black dark:bg-white text-white dark:text-black"
+                        : "bg-transparent text-black dark:text-white hover:bg-black/10 dark:hover:bg-white/10"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex border-2 border-black dark:border-white">
+                {WINDOW_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => selectWindow(option.value)}
+                    className={`px-4 py-2 text-xs font-bold uppercase transition-colors ${
+                      analysisWindow === option.value
+                        ? "bg-black dark:bg-white text-white dark:text-black"
+                        : "bg-transparent text-black dark:text-white hover:bg-black/10 dark:hover:bg-white/10"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
           {loading && (
             <div className="flex items-center justify-center py-20">
               <div className="w-8 h-8 border-4 border-black dark:border-white border-t-transparent animate-spin" />
@@ -170,13 +266,13 @@ export default function InflationPage() {
             </div>
           )}
 
-          {data && (
+          {data && !loading && (
             <>
               {/* Note */}
               <div className="bg-black/5 dark:bg-white/5 border-2 border-black dark:border-white p-4">
                 <p className="text-sm text-black/60 dark:text-white/60">
-                  <strong className="text-black dark:text-white">Note:</strong> Projections are based on the average emission rate observed during the data collection period. 
-                  Actual inflation may vary based on TVL changes, participant activity, and protocol updates.
+                  <strong className="text-black dark:text-white">Note:</strong> Rates and projections come from least-squares fits across every snapshot in the selected window,
+                  so a single bad capture has limited effect. Actual inflation may vary based on TVL changes, participant activity, and protocol updates.
                 </p>
               </div>
 
@@ -187,6 +283,16 @@ export default function InflationPage() {
                   <strong className="text-black dark:text-white">{new Date(data.dataRange.from).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}</strong> to{" "}
                   <strong className="text-black dark:text-white">{new Date(data.dataRange.to).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}</strong>{" "}
                   ({data.dataRange.totalDays} {data.dataRange.totalDays === 1 ? "day" : "days"})
+                  {data.dataRange.backfilledCount > 0 && (
+                    <> • {data.dataRange.backfilledCount} backfilled (TVL only)</>
+                  )}
+                  {data.dataRange.withoutSupplyCount > 0 && (
+                    <> • {data.dataRange.withoutSupplyCount} without cross-chain points (TVL only)</>
+                  )}
+                  {data.supply === "combined" && <> • Points: Ethereum + Plasma</>}
+                  {data.dataRange.quarantinedCount > 0 && (
+                    <> • {data.dataRange.quarantinedCount} quarantined {data.dataRange.includeQuarantined ? "(included)" : "(excluded)"}</>
+                  )}
                 </p>
               </div>
 
@@ -228,23 +334,86 @@ export default function InflationPage() {
                     <p className="text-2xl font-bold text-white dark:text-black">
                       {data.growthRates.tvlDailyGrowthRate >= 0 ? "+" : ""}{data.growthRates.tvlDailyGrowthRate.toFixed(4)}%
                     </p>
-                    <p className="text-xs text-white/40 dark:text-black/40">per day (compound)</p>
+                    <p className="text-xs text-white/40 dark:text-black/40">per day (log-linear fit)</p>
                   </div>
                   <div className="bg-black dark:bg-white border-2 border-black dark:border-white p-4">
                     <p className="text-xs text-white/50 dark:text-black/50 uppercase mb-1">Weighted TVL Growth</p>
                     <p className="text-2xl font-bold text-white dark:text-black">
                       {data.growthRates.weightedTvlDailyGrowthRate >= 0 ? "+" : ""}{data.growthRates.weightedTvlDailyGrowthRate.toFixed(4)}%
                     </p>
-                    <p className="text-xs text-white/40 dark:text-black/40">per day (compound)</p>
+                    <p className="text-xs text-white/40 dark:text-black/40">per day (log-linear fit)</p>
                   </div>
                   <div className="bg-black dark:bg-white border-2 border-black dark:border-white p-4">
                     <p className="text-xs text-white/50 dark:text-black/50 uppercase mb-1">Points Emission</p>
                     <p className="text-2xl font-bold text-green-400 dark:text-green-600">
                       {data.growthRates.pointsDailyGrowthRate >= 0 ? "+" : ""}{data.growthRates.pointsDailyGrowthRate.toFixed(4)}%
                     </p>
-                    <p className="text-xs text-white/40 dark:text-black/40">per day (compound)</p>
+                    <p className="text-xs text-white/40 dark:text-black/40">per day (log-linear fit)</p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Estimate Stability */}
+              <div>
+                <h2 className="text-lg font-bold uppercase text-black dark:text-white mb-2">Estimate Stability</h2>
+                <p className="text-xs text-black/50 dark:text-white/50 mb-4">
+                  How well a straight line fits the points total, and how much daily issuance and weighted TVL move
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-4">
+                    <p className="text-xs text-black/50 dark:text-white/50 uppercase mb-1">Points Fit R²</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">
+                      {data.analysis.fits.points ? data.analysis.fits.points.r2.toFixed(4) : "—"}
+                    </p>
+                    <p className="text-xs text-black/40 dark:text-white/40">1.0 = perfectly steady emission</p>
+                  </div>
+                  <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-4">
+                    <p className="text-xs text-black/50 dark:text-white/50 uppercase mb-1">Residual Std Dev</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">{data.analysis.volatility.residualStdDevFormatted}</p>
+                    <p className="text-xs text-black/40 dark:text-white/40">points off the fitted line</p>
+                  </div>
+                  <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-4">
+                    <p className="text-xs text-black/50 dark:text-white/50 uppercase mb-1">Issuance Volatility</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">
+                      {data.analysis.volatility.issuanceCv !== null ? `${(data.analysis.volatility.issuanceCv * 100).toFixed(1)}%` : "—"}
+                    </p>
+                    <p className="text-xs text-black/40 dark:text-white/40">±{data.analysis.volatility.issuanceStdDevFormatted}/day</p>
+                  </div>
+                  <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-4">
+                    <p className="text-xs text-black/50 dark:text-white/50 uppercase mb-1">Weighted TVL Volatility</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">
+                      {data.analysis.volatility.weightedTvlDailyVolatility.toFixed(2)}%
+                    </p>
+                    <p className="text-xs text-black/40 dark:text-white/40">std dev of daily moves</p>
                   </div>
                 </div>
+
+                {data.analysis.dailySeries.length > 0 && (
+                  <div className="mt-4 bg-white dark:bg-black border-2 border-black dark:border-white overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="bg-black dark:bg-white text-white dark:text-black">
+                            <th className="text-left px-4 py-3 font-bold text-xs uppercase">Day</th>
+                            <th className="text-right px-4 py-3 font-bold text-xs uppercase">Issued</th>
+                            <th className="text-right px-4 py-3 font-bold text-xs uppercase">{data.analysis.rollingDays}D Avg</th>
+                            <th className="text-right px-4 py-3 font-bold text-xs uppercase">Est. (1:1)</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {data.analysis.dailySeries.map((day) => (
+                            <tr key={day.date} className="border-b border-black/20 dark:border-white/20 last:border-b-0">
+                              <td className="px-4 py-3 text-black dark:text-white">{day.date}</td>
+                              <td className="px-4 py-3 text-right font-bold text-black dark:text-white">{day.issuanceFormatted}</td>
+                              <td className="px-4 py-3 text-right text-black/60 dark:text-white/60">{day.rollingAverageFormatted}</td>
+                              <td className="px-4 py-3 text-right text-black/40 dark:text-white/40">{(day.estDailyPoints / 1e6).toFixed(2)}M</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Current State */}
@@ -393,12 +562,25 @@ export default function InflationPage() {
                           >
                             <td className="px-4 py-3 text-black dark:text-white">
                               {new Date(snapshot.capturedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                              {snapshot.backfilled && (
+                                <span className="ml-2 px-1.5 py-0.5 text-[10px] font-bold uppercase border border-black/40 dark:border-white/40 text-black/60 dark:text-white/60">
+                                  Backfilled
+                                </span>
+                              )}
+                              {snapshot.quarantined && (
+                                <span
+                                  title={snapshot.quarantineReasons.join("\n")}
+                                  className="ml-2 px-1.5 py-0.5 text-[10px] font-bold uppercase border border-red-500 text-red-500"
+                                >
+                                  Quarantined
+                                </span>
+                              )}
                             </td>
                             <td className="px-4 py-3 text-right font-bold text-black dark:text-white">
-                              {snapshot.s1RewardsIssuedFormatted}
+                              {snapshot.s1RewardsIssuedFormatted ?? "—"}
                             </td>
                             <td className="px-4 py-3 text-right text-green-600">
-                              {index === 0 ? "—" : `+${snapshot.pointsChangeFormatted}`}
+                              {index === 0 || snapshot.s1RewardsIssued === null ? "—" : `+${snapshot.pointsChangeFormatted}`}
                             </td>
                             <td className="px-4 py-3 text-right text-black dark:text-white">
                               ${snapshot.totalTvlFormatted}
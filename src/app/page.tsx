@@ -3,6 +3,7 @@
 import Link from "next/link";
 import Calculator from "@/components/Calculator";
 import TvlTable from "@/components/TvlTable";
+import WalletPortfolio from "@/components/WalletPortfolio";
 import ThemeToggle from "@/components/ThemeToggle";
 import Footer from "@/components/Footer";
 
@@ -55,6 +56,7 @@ export default function Home() {
         <div className="max-w-6xl mx-auto px-6 space-y-8">
           <Calculator />
           <TvlTable />
+          <WalletPortfolio />
         </div>
       </main>
 
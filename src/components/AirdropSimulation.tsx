@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { formatPercent } from "@/lib/calculations";
+import { SimulatedPosition, SimulationSummary, runAirdropSimulation } from "@/lib/monteCarlo";
+
+const TRIAL_OPTIONS = [1_000, 5_000, 10_000];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface AirdropSimulationProps {
+  position: SimulatedPosition;
+  // Starting points for the distributions: the Calculator's own inputs
+  defaultFdvMillion: number;
+  defaultAirdropPercent: number;
+  defaultTgeDate: string;
+  defaultGrowthRate: number; // % per day
+}
+
+const daysFromNow = (date: string) => Math.ceil((new Date(date).getTime() - Date.now()) / DAY_MS);
+
+const shiftDate = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split("T")[0];
+
+export default function AirdropSimulation({
+  position,
+  defaultFdvMillion,
+  defaultAirdropPercent,
+  defaultTgeDate,
+  defaultGrowthRate,
+}: AirdropSimulationProps) {
+  const [fdvMedian, setFdvMedian] = useState<string>(defaultFdvMillion.toString());
+  const [fdvSigma, setFdvSigma] = useState<string>("0.6");
+  const [airdropMin, setAirdropMin] = useState<string>(Math.max(0.5, defaultAirdropPercent - 2).toString());
+  const [airdropMax, setAirdropMax] = useState<string>((defaultAirdropPercent + 2).toString());
+  const [tgeEarliest, setTgeEarliest] = useState<string>(shiftDate(defaultTgeDate, -30));
+  const [tgeLatest, setTgeLatest] = useState<string>(shiftDate(defaultTgeDate, 60));
+  const [growthMean, setGrowthMean] = useState<string>(defaultGrowthRate.toFixed(4));
+  const [growthSd, setGrowthSd] = useState<string>(Math.max(0.05, Math.abs(defaultGrowthRate) / 2).toFixed(4));
+  const [trials, setTrials] = useState<number>(TRIAL_OPTIONS[1]);
+  const [summary, setSummary] = useState<SimulationSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = () => {
+    const values = [fdvMedian, fdvSigma, airdropMin, airdropMax, growthMean, growthSd].map(parseFloat);
+    if (values.some(isNaN) || values[0] <= 0 || values[1] < 0 || values[2] < 0 || values[3] < values[2] || values[5] < 0) {
+      setError("Please enter valid distribution parameters");
+      return;
+    }
+    const tgeDaysMin = daysFromNow(tgeEarliest);
+    const tgeDaysMax = daysFromNow(tgeLatest);
+    if (isNaN(tgeDaysMin) || isNaN(tgeDaysMax) || tgeDaysMax < tgeDaysMin) {
+      setError("Please enter a valid TGE date range");
+      return;
+    }
+
+    setError(null);
+    setSummary(runAirdropSimulation(position, {
+      fdvMedian: values[0] * 1_000_000,
+      fdvSigma: values[1],
+      airdropPercentMin: values[2],
+      airdropPercentMax: values[3],
+      tgeDaysMin,
+      tgeDaysMax,
+      growthMean: values[4],
+      growthSd: values[5],
+    }, trials));
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm font-bold border-2 border-black dark:border-white focus:outline-none focus:ring-0 bg-white dark:bg-black text-black dark:text-white";
+  const labelClass = "block text-xs text-black/50 dark:text-white/50 uppercase mb-1";
+
+  const fields: { label: string; value: string; set: (value: string) => void; type?: string; step?: string }[] = [
+    { label: "Median FDV ($M)", value: fdvMedian, set: setFdvMedian, step: "10" },
+    { label: "FDV Volatility (σ of ln)", value: fdvSigma, set: setFdvSigma, step: "0.1" },
+    { label: "Airdrop % Min", value: airdropMin, set: setAirdropMin, step: "0.5" },
+    { label: "Airdrop % Max", value: airdropMax, set: setAirdropMax, step: "0.5" },
+    { label: "TGE Earliest", value: tgeEarliest, set: setTgeEarliest, type: "date" },
+    { label: "TGE Latest", value: tgeLatest, set: setTgeLatest, type: "date" },
+    { label: "Growth Mean (%/day)", value: growthMean, set: setGrowthMean, step: "0.01" },
+    { label: "Growth Std Dev (%/day)", value: growthSd, set: setGrowthSd, step: "0.01" },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-black border-2 border-black dark:border-white overflow-hidden">
+      <div className="bg-black dark:bg-white px-6 py-4">
+        <h3 className="font-bold uppercase text-white dark:text-black text-lg">Airdrop Simulation</h3>
+        <p className="text-xs text-white/50 dark:text-black/50 uppercase mt-0.5">
+          Log-normal FDV, uniform airdrop % and TGE date, normal points growth
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {fields.map((field) => (
+            <div key={field.label}>
+              <label className={labelClass}>{field.label}</label>
+              <input
+                type={field.type ?? "number"}
+                value={field.value}
+                step={field.step}
+                onChange={(e) => field.set(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex border-2 border-black dark:border-white">
+            {TRIAL_OPTIONS.map((count) => (
+              <button
+                key={count}
+                onClick={() => setTrials(count)}
+                className={`px-4 py-2 text-xs font-bold uppercase transition-colors ${
+                  trials === count
+                    ? "bg-black dark:bg-white text-white dark:text-black"
+                    : "bg-transparent text-black dark:text-white hover:bg-black/10 dark:hover:bg-white/10"
+                }`}
+              >
+                {count.toLocaleString()} trials
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleRun}
+            className="px-6 py-2 bg-black dark:bg-white text-white dark:text-black font-bold uppercase border-2 border-black dark:border-white hover:bg-black/80 dark:hover:bg-white/80"
+          >
+            RUN
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500 text-white px-6 py-4 border-2 border-black dark:border-white font-bold uppercase text-sm">
+            {error}
+          </div>
+        )}
+
+        {summary && !error && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="p-4 border-2 border-black dark:border-white">
+                <p className="text-xs text-black/60 dark:text-white/60 uppercase mb-1">P(Profit)</p>
+                <p className="text-xl font-bold font-mono text-black dark:text-white">{formatPercent(summary.probabilityOfProfit)}</p>
+              </div>
+              <div className="p-4 border-2 border-black dark:border-white">
+                <p className="text-xs text-black/60 dark:text-white/60 uppercase mb-1">Median ROI</p>
+                <p className={`text-xl font-bold font-mono ${summary.percentiles.p50 >= 0 ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+                  {summary.percentiles.p50 >= 0 ? "+" : ""}{formatPercent(summary.percentiles.p50)}
+                </p>
+              </div>
+              <div className="p-4 border-2 border-black dark:border-white">
+                <p className="text-xs text-black/60 dark:text-white/60 uppercase mb-1">Mean ROI</p>
+                <p className={`text-xl font-bold font-mono ${summary.meanRoi >= 0 ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+                  {summary.meanRoi >= 0 ? "+" : ""}{formatPercent(summary.meanRoi)}
+                </p>
+              </div>
+              <div className="p-4 border-2 border-black dark:border-white">
+                <p className="text-xs text-black/60 dark:text-white/60 uppercase mb-1">Trials</p>
+                <p className="text-xl font-bold font-mono text-black dark:text-white">{summary.trials.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="h-[250px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={summary.histogram} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-black/10 dark:stroke-white/10" />
+                  <XAxis
+                    dataKey="roi"
+                    tickFormatter={(value) => `${(value * 100).toFixed(0)}%`}
+                    tick={{ fill: "currentColor", fontSize: 11 }}
+                    className="text-black dark:text-white"
+                    stroke="currentColor"
+                  />
+                  <YAxis
+                    tick={{ fill: "currentColor", fontSize: 11 }}
+                    className="text-black dark:text-white"
+                    stroke="currentColor"
+                  />
+                  <Tooltip
+                    labelFormatter={(value) => `ROI ≈ ${formatPercent(Number(value))}`}
+                    formatter={(value) => [value, "Trials"]}
+                  />
+                  <Bar dataKey="count" fill="#22c55e" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-black/5 dark:bg-white/5 text-left text-xs uppercase text-black/40 dark:text-white/40 border-b border-black/10 dark:border-white/10">
+                    {(["p5", "p25", "p50", "p75", "p95"] as const).map((key) => (
+                      <th key={key} className="py-3 px-6 text-right">{key.toUpperCase()}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    {(["p5", "p25", "p50", "p75", "p95"] as const).map((key) => (
+                      <td key={key} className={`py-3 px-6 text-right font-bold ${summary.percentiles[key] >= 0 ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+                        {summary.percentiles[key] >= 0 ? "+" : ""}{formatPercent(summary.percentiles[key])}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-xs text-black/40 dark:text-white/40">
+              Points accrue until expiry or TGE, whichever comes first; the season total compounds at the drawn growth rate until TGE.
+              {summary.discarded > 0 && ` ${summary.discarded.toLocaleString()} trials with a non-finite ROI were left out.`}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
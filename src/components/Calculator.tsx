@@ -2,8 +2,8 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
-import { MARKETS, MarketKey } from "@/lib/constants";
-import { MarketData, SwapQuoteResponse } from "@/lib/types";
+import { PENDLE_MARKETS, UNDERLYINGS, getMarket, getMarketName, getPendleUrl, isMarketMatured } from "@/lib/markets";
+import { MarketData, NormalizedSwapQuote } from "@/lib/types";
 import {
   parseUnits,
   formatUnits,
@@ -11,11 +11,20 @@ import {
   calculateDailyPoints,
   calculateTotalPoints,
   calculateEffectiveLeverage,
+  calculateLpDailyPoints,
+  calculateLpYield,
   formatNumber,
   formatPercent,
 } from "@/lib/calculations";
 import { usePointsData } from "@/hooks/usePointsData";
-import { useInflationData } from "@/hooks/useInflationData";
+import { useTvlData } from "@/hooks/useTvlData";
+import { PointSupply, useInflationData } from "@/hooks/useInflationData";
+import { DEFAULT_EMISSION_MODEL, applyEmission } from "@/lib/emission";
+import { scheduleMarket } from "@/lib/boostSchedule";
+import PortfolioOptimizer from "./PortfolioOptimizer";
+import PriceImpactLadder from "./PriceImpactLadder";
+import ExitSimulator from "./ExitSimulator";
+import AirdropSimulation from "./AirdropSimulation";
 
 // FDV scenarios in millions
 const FDV_SCENARIOS = [50, 100, 150, 200, 250, 300, 400, 500];
@@ -41,37 +50,47 @@ interface MarketInfo {
 }
 
 export default function Calculator() {
-  const [selectedMarket, setSelectedMarket] = useState<MarketKey>("NUSD");
+  const [selectedMarket, setSelectedMarket] = useState<string>(
+    () => (PENDLE_MARKETS.find((m) => !isMarketMatured(m)) ?? PENDLE_MARKETS[0]).key
+  );
   const [inputAmount, setInputAmount] = useState<string>("1000");
-  const [marketsInfo, setMarketsInfo] = useState<Record<MarketKey, MarketInfo>>({
-    NUSD: { data: null, loading: true },
-    sNUSD: { data: null, loading: true },
-  });
-  const [swapQuote, setSwapQuote] = useState<SwapQuoteResponse | null>(null);
+  const [marketsInfo, setMarketsInfo] = useState<Record<string, MarketInfo>>(() =>
+    Object.fromEntries(PENDLE_MARKETS.map((m) => [m.key, { data: null, loading: true }]))
+  );
+  const [swapQuote, setSwapQuote] = useState<NormalizedSwapQuote | null>(null);
+  const [lpQuote, setLpQuote] = useState<NormalizedSwapQuote | null>(null);
+  const [lpError, setLpError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasCalculated, setHasCalculated] = useState(false);
+  const [mode, setMode] = useState<"buy" | "exit">("buy");
+  const [valuation, setValuation] = useState<"grid" | "simulation">("grid");
   const [tgeDate, setTgeDate] = useState<string>(DEFAULT_TGE_DATE);
   const [projectionMethod, setProjectionMethod] = useState<"points" | "weightedTvl">("points");
+  const [pointSupply, setPointSupply] = useState<PointSupply>("ethereum");
   const [airdropPercent, setAirdropPercent] = useState<string>(DEFAULT_AIRDROP_PERCENT.toString());
 
   // Fetch total points from Neutrl API
   const { data: pointsData, loading: pointsLoading } = usePointsData();
 
-  // Fetch inflation data for projections
-  const { data: inflationData, projectPointsAtDate } = useInflationData();
+  // LP SY/PT split for the LP comparison
+  const { data: tvlData } = useTvlData();
 
-  const market = MARKETS[selectedMarket];
-  const marketData = marketsInfo[selectedMarket].data;
+  // Fetch inflation data for projections, over the selected point supply
+  const { data: inflationData, error: inflationError, projectPointsAtDate } = useInflationData("all", pointSupply);
 
-  // Fetch market data for both markets on mount
+  // Multiplier and fee split as scheduled now
+  const market = scheduleMarket(getMarket(selectedMarket) ?? PENDLE_MARKETS[0]);
+  const marketSymbol = UNDERLYINGS[market.underlying].symbol;
+  const marketData = marketsInfo[selectedMarket]?.data ?? null;
+  const isMatured = isMarketMatured(market);
+
+  // Fetch market data for all registered markets on mount
   useEffect(() => {
     const fetchAllMarkets = async () => {
-      const keys: MarketKey[] = ["NUSD", "sNUSD"];
-
-      for (const key of keys) {
+      for (const { key, market: address } of PENDLE_MARKETS) {
         try {
-          const response = await fetch(`/api/markets?address=${MARKETS[key].address}&t=${Date.now()}`);
+          const response = await fetch(`/api/markets?address=${address}&t=${Date.now()}`);
           if (!response.ok) throw new Error("Failed to fetch market data");
           const data = await response.json();
           setMarketsInfo(prev => ({
@@ -93,6 +112,11 @@ export default function Calculator() {
 
   // Calculate button handler
   const handleCalculate = async () => {
+    if (isMatured) {
+      setError("This market has matured - redeem PT / claim on Pendle instead");
+      return;
+    }
+
     const amount = parseFloat(inputAmount);
     if (isNaN(amount) || amount <= 0) {
       setError("Please enter a valid amount");
@@ -103,19 +127,38 @@ export default function Calculator() {
     setError(null);
     setHasCalculated(false);
 
-    try {
+    const fetchQuote = async (type: NormalizedSwapQuote["type"]): Promise<NormalizedSwapQuote> => {
       const response = await fetch("/api/swap", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          market: market.address,
+          market: market.market,
           netFromTaker: parseUnits(amount),
+          type,
         }),
       });
 
       if (!response.ok) throw new Error("Failed to fetch swap quote");
-      const data = await response.json();
+      return response.json();
+    };
+
+    // The LP quote only feeds the comparison, so its failure doesn't fail the YT result
+    const lpRequest = fetchQuote("lp").then(
+      (quote) => {
+        setLpQuote(quote);
+        setLpError(null);
+      },
+      (err) => {
+        console.error("Error fetching LP quote:", err);
+        setLpQuote(null);
+        setLpError("LP quote unavailable");
+      }
+    );
+
+    try {
+      const data = await fetchQuote("yt");
       setSwapQuote(data);
+      await lpRequest;
       setHasCalculated(true);
     } catch (err) {
       console.error("Error fetching swap quote:", err);
@@ -126,9 +169,10 @@ export default function Calculator() {
   };
 
   // Reset when market changes
-  const handleMarketChange = (key: MarketKey) => {
+  const handleMarketChange = (key: string) => {
     setSelectedMarket(key);
     setSwapQuote(null);
+    setLpQuote(null);
     setHasCalculated(false);
     setError(null);
   };
@@ -136,16 +180,20 @@ export default function Calculator() {
   // Calculate results
   const amount = parseFloat(inputAmount) || 0;
   const ytReceived = swapQuote
-    ? formatUnits(swapQuote.totalTrade.netToTaker)
+    ? formatUnits(swapQuote.amountOut)
     : 0;
   const swapFee = swapQuote
-    ? formatUnits(swapQuote.totalTrade.fee)
+    ? formatUnits(swapQuote.fee)
     : 0;
   const daysToExpiry = marketData
     ? calculateDaysToExpiry(marketData.expiry)
     : 0;
-  const dailyPointsEarned = calculateDailyPoints(ytReceived, selectedMarket);
-  const totalPointsEarned = calculateTotalPoints(ytReceived, selectedMarket, daysToExpiry);
+  // Points per weighted dollar from the calibrated emission model (1:1 until calibrated)
+  const emission = inflationData?.emission ?? DEFAULT_EMISSION_MODEL;
+  const dailyPointsBand = applyEmission(calculateDailyPoints(ytReceived, selectedMarket), emission);
+  const totalPointsBand = applyEmission(calculateTotalPoints(ytReceived, selectedMarket, daysToExpiry), emission);
+  const dailyPointsEarned = dailyPointsBand.estimate;
+  const totalPointsEarned = totalPointsBand.estimate;
   const effectiveLeverage = calculateEffectiveLeverage(amount, ytReceived);
 
   // Get token prices for accurate USD calculations
@@ -165,10 +213,41 @@ export default function Calculator() {
   const yearsToExpiry = daysToExpiry / 365;
   const underlyingYieldEarned = ytReceived * underlyingPrice * underlyingApy * yearsToExpiry;
 
+  // Same amount zapped into LP: only the SY portion earns points, minus the excluded share.
+  // The position keeps its value and earns underlying yield, PT yield and swap fees.
+  const lpMarketTvl = tvlData?.markets[selectedMarket];
+  const lpSyShare = lpMarketTvl && lpMarketTvl.lpTvl > 0 ? lpMarketTvl.lpSyTvl / lpMarketTvl.lpTvl : null;
+  const lpReceived = lpQuote ? formatUnits(lpQuote.amountOut) : 0;
+  // Value of the quoted LP, i.e. what's left of the input after the zap's swap and price impact
+  const lpValueUsd = lpQuote && lpMarketTvl && lpMarketTvl.lpPrice > 0 ? lpReceived * lpMarketTvl.lpPrice : null;
+  const hasLpPoints = lpSyShare !== null && lpValueUsd !== null;
+  const lpDailyPointsBand = applyEmission(
+    hasLpPoints ? calculateLpDailyPoints(lpValueUsd, lpSyShare, selectedMarket) : 0,
+    emission
+  );
+  const lpTotalPoints = lpDailyPointsBand.estimate * daysToExpiry;
+  const lpPositionUsd = lpValueUsd ?? inputValueUsd;
+  const lpYield = calculateLpYield(
+    lpPositionUsd,
+    lpSyShare ?? 0,
+    {
+      underlyingApy,
+      impliedApy: marketData?.impliedApy || 0,
+      swapFeeApy: marketData?.swapFeeApy || 0,
+    },
+    daysToExpiry
+  );
+
 
 
   // Calculate projected points at TGE using data-driven methods
-  const currentPoints = pointsData?.totalPoints || 0;
+  // Ethereum's season program, or every chain's when the combined supply is selected
+  const ethereumPoints = pointsData?.totalPoints || 0;
+  const currentPoints = pointSupply === "combined"
+    ? pointsData?.combined?.totalPoints || ethereumPoints
+    : ethereumPoints;
+  // Weighted TVL (and so the emission model) is Ethereum's; other chains are assumed to issue in proportion
+  const supplyRatio = ethereumPoints > 0 ? currentPoints / ethereumPoints : 1;
   const daysToTge = Math.max(
     0,
     Math.ceil((new Date(tgeDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
@@ -204,8 +283,8 @@ export default function Calculator() {
       ? 1
       : (totalGrowthMultiplier - 1) / (Math.log(totalGrowthMultiplier) || 1);
 
-    // Daily emission = weighted TVL (1 point per weighted TVL per day)
-    const projectedNewPoints = currentWeightedTvl * avgEmissionMultiplier * daysToTge;
+    // Daily emission = weighted TVL × calibrated points per weighted dollar
+    const projectedNewPoints = currentWeightedTvl * emission.pointsPerDollar * avgEmissionMultiplier * daysToTge * supplyRatio;
     projectedPointsAtTge = currentPoints + projectedNewPoints;
   }
 
@@ -256,22 +335,63 @@ export default function Calculator() {
         <p className="text-sm text-black/60 dark:text-white/60 uppercase tracking-wide">Select a market and enter amount to estimate returns</p>
       </div>
 
+      {/* Buy / Exit */}
+      <div className="flex border-2 border-black dark:border-white w-fit">
+        {([["buy", "Buy YT"], ["exit", "Exit YT"]] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => {
+              setMode(value);
+              setHasCalculated(false);
+              setError(null);
+            }}
+            className={`px-4 py-2 text-xs font-bold uppercase transition-colors ${
+              mode === value
+                ? "bg-black dark:bg-white text-white dark:text-black"
+                : "bg-transparent text-black dark:text-white hover:bg-black/10 dark:hover:bg-white/10"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       {/* Market Selection */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {(Object.keys(MARKETS) as MarketKey[]).map((key) => {
-          const m = MARKETS[key];
+        {PENDLE_MARKETS.map((m) => {
+          const key = m.key;
+          const name = getMarketName(m);
+          const symbol = UNDERLYINGS[m.underlying].symbol;
           const info = marketsInfo[key];
           const isSelected = selectedMarket === key;
+          const matured = isMarketMatured(m);
 
           return (
             <button
               key={key}
-              onClick={() => handleMarketChange(key)}
-              className={`text-left p-5 border-2 transition-all ${isSelected
+              onClick={() => !matured && handleMarketChange(key)}
+              aria-disabled={matured}
+              className={`text-left p-5 border-2 transition-all ${matured
+                ? "border-black/30 dark:border-white/30 bg-white dark:bg-black text-black/50 dark:text-white/50 cursor-not-allowed"
+                : isSelected
                 ? "border-black dark:border-white bg-white dark:bg-black text-black dark:text-white border-4"
                 : "border-black dark:border-white bg-white dark:bg-black text-black dark:text-white hover:bg-black/5 dark:hover:bg-white/5"
                 }`}
             >
+              {matured && (
+                <div className="mb-4 pb-3 border-b-2 border-black/20 dark:border-white/20 text-xs uppercase tracking-wide">
+                  <span className="font-bold">{name} matured</span> on {m.expiry.split("T")[0]}. YT no longer earns points -{" "}
+                  <a
+                    href={getPendleUrl(m)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="underline hover:text-black dark:hover:text-white"
+                  >
+                    redeem PT / claim on Pendle
+                  </a>
+                </div>
+              )}
               {info.loading ? (
                 <div className="flex items-center justify-center py-6">
                   <div className="w-5 h-5 border-2 border-current border-t-transparent animate-spin" />
@@ -283,23 +403,23 @@ export default function Calculator() {
                     <div className="flex items-center gap-3">
                       <img
                         src={info.data.proIcon}
-                        alt={m.name}
+                        alt={name}
                         className="w-10 h-10"
                       />
                       <div>
-                        <h3 className="font-bold uppercase">{m.name}</h3>
+                        <h3 className="font-bold uppercase">{name}</h3>
                         <div className="flex items-center gap-2 mt-0.5">
                           <span className="text-xs uppercase tracking-wide text-black/60 dark:text-white/60">
-                            {m.pointsMultiplier}x Points
+                            {scheduleMarket(m).pointsMultiplier}x Points
                           </span>
-                          {m.hasUnderlyingYield && (
+                          {UNDERLYINGS[m.underlying].hasUnderlyingYield && (
                             <span className="text-xs uppercase font-bold text-black dark:text-white">+ Yield</span>
                           )}
                         </div>
                       </div>
                     </div>
                     <a
-                      href={m.pendleUrl}
+                      href={getPendleUrl(m)}
                       target="_blank"
                       rel="noopener noreferrer"
                       onClick={(e) => e.stopPropagation()}
@@ -315,7 +435,7 @@ export default function Calculator() {
                   {/* Stats Row 1 */}
                   <div className="grid grid-cols-3 gap-4 pt-3 border-t-2 border-black/20 dark:border-white/20">
                     <div>
-                      <span className="text-xs uppercase tracking-wide block text-black/50 dark:text-white/50">{m.symbol} Price</span>
+                      <span className="text-xs uppercase tracking-wide block text-black/50 dark:text-white/50">{symbol} Price</span>
                       <span className="text-sm font-bold">
                         ${info.data.sy.price.usd.toFixed(4)}
                       </span>
@@ -377,47 +497,54 @@ export default function Calculator() {
       </div>
 
       {/* Input Section */}
-      <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-6">
-        <label className="block text-sm font-bold uppercase text-black dark:text-white mb-3">
-          Investment Amount
-        </label>
-        <div className="flex gap-3">
-          <div className="relative flex-1">
-            <input
-              type="number"
-              value={inputAmount}
-              onChange={(e) => {
-                setInputAmount(e.target.value);
-                setHasCalculated(false);
-              }}
-              onKeyDown={(e) => {
-                if (e.key === "Enter") handleCalculate();
-              }}
-              placeholder="1000"
-              className="w-full px-4 py-3 text-lg font-bold border-2 border-black dark:border-white focus:outline-none focus:ring-0 bg-white dark:bg-black text-black dark:text-white"
-            />
-            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-black/50 dark:text-white/50 uppercase">
-              {market.symbol}
-            </span>
+      {mode === "buy" && (
+        <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-6">
+          <label className="block text-sm font-bold uppercase text-black dark:text-white mb-3">
+            Investment Amount
+          </label>
+          <div className="flex gap-3">
+            <div className="relative flex-1">
+              <input
+                type="number"
+                value={inputAmount}
+                onChange={(e) => {
+                  setInputAmount(e.target.value);
+                  setHasCalculated(false);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCalculate();
+                }}
+                placeholder="1000"
+                className="w-full px-4 py-3 text-lg font-bold border-2 border-black dark:border-white focus:outline-none focus:ring-0 bg-white dark:bg-black text-black dark:text-white"
+              />
+              <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-black/50 dark:text-white/50 uppercase">
+                {marketSymbol}
+              </span>
+            </div>
+            <button
+              onClick={handleCalculate}
+              disabled={loading || isMatured}
+              className="px-6 py-3 bg-black dark:bg-white text-white dark:text-black font-bold uppercase border-2 border-black dark:border-white hover:bg-black/80 dark:hover:bg-white/80 disabled:opacity-50 disabled:cursor-not-allowed min-w-[120px]"
+            >
+              {loading ? (
+                <div className="w-5 h-5 border-2 border-current border-t-transparent animate-spin mx-auto" />
+              ) : (
+                "CALCULATE"
+              )}
+            </button>
           </div>
-          <button
-            onClick={handleCalculate}
-            disabled={loading}
-            className="px-6 py-3 bg-black dark:bg-white text-white dark:text-black font-bold uppercase border-2 border-black dark:border-white hover:bg-black/80 dark:hover:bg-white/80 disabled:opacity-50 disabled:cursor-not-allowed min-w-[120px]"
-          >
-            {loading ? (
-              <div className="w-5 h-5 border-2 border-current border-t-transparent animate-spin mx-auto" />
-            ) : (
-              "CALCULATE"
-            )}
-          </button>
+          {isMatured && (
+            <p className="mt-2 text-sm text-black/50 dark:text-white/50">
+              {getMarketName(market)} has matured - YT no longer earns points. Redeem PT / claim on Pendle.
+            </p>
+          )}
+          {marketData && amount > 0 && (
+            <p className="mt-2 text-sm text-black/50 dark:text-white/50 text-right">
+              ≈ ${formatNumber(inputValueUsd, 2)} USD
+            </p>
+          )}
         </div>
-        {marketData && amount > 0 && (
-          <p className="mt-2 text-sm text-black/50 dark:text-white/50 text-right">
-            ≈ ${formatNumber(inputValueUsd, 2)} USD
-          </p>
-        )}
-      </div>
+      )}
 
       {/* Points Program End Date */}
       <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-6">
@@ -499,6 +626,38 @@ export default function Calculator() {
           </p>
         </div>
 
+        {/* Point Supply */}
+        <div className="mt-4 pt-4 border-t-2 border-black/10 dark:border-white/10 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-black/50 dark:text-white/50 uppercase">Point Supply</p>
+          <div className="flex border-2 border-black dark:border-white">
+            {([["ethereum", "Ethereum"], ["combined", "All Chains"]] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setPointSupply(value)}
+                className={`px-4 py-2 text-xs font-bold uppercase transition-colors ${
+                  pointSupply === value
+                    ? "bg-black dark:bg-white text-white dark:text-black"
+                    : "bg-transparent text-black dark:text-white hover:bg-black/10 dark:hover:bg-white/10"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {pointsData?.chains && (
+            <p className="w-full text-xs text-black/40 dark:text-white/40">
+              Ethereum {pointsData.chains.ethereum.totalPointsFormatted}
+              {pointsData.chains.plasma && <> + Plasma {pointsData.chains.plasma.totalPointsFormatted}</>}
+              {" "}= {pointsData.combined.totalPointsFormatted} points across chains
+            </p>
+          )}
+          {pointSupply === "combined" && inflationError && (
+            <p className="w-full text-xs text-yellow-600 dark:text-yellow-400">
+              Not enough snapshots with cross-chain points yet for growth projections
+            </p>
+          )}
+        </div>
+
         {inflationData && (
           <>
             {/* Projection Method */}
@@ -538,7 +697,7 @@ export default function Calculator() {
                     </span>
                   </div>
                   <p className={`text-xs ${projectionMethod === "weightedTvl" ? "text-white/70 dark:text-black/70" : "text-black/50 dark:text-white/50"}`}>
-                    1 point/day per weighted TVL unit
+                    Calibrated points/day per weighted TVL unit
                   </p>
                 </button>
               </div>
@@ -626,6 +785,18 @@ export default function Calculator() {
         )}
       </div>
 
+      {/* Sell now vs hold to expiry */}
+      {mode === "exit" && (
+        <ExitSimulator
+          key={market.key}
+          market={market}
+          marketData={marketData}
+          pointValues={fdvScenarios.map(({ fdv, pointValue }) => ({ fdv, pointValue }))}
+          emission={emission}
+          daysToTge={daysToTge}
+        />
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="bg-red-500 text-white px-6 py-4 border-2 border-black dark:border-white font-bold uppercase text-sm">
@@ -657,7 +828,7 @@ export default function Calculator() {
               <div className="px-6 py-4 flex justify-between items-center">
                 <span className="text-black/60 dark:text-white/60 uppercase text-sm">Swap Fee</span>
                 <span className="text-black/50 dark:text-white/50">
-                  {formatNumber(swapFee, 4)} {market.symbol}
+                  {formatNumber(swapFee, 4)} {marketSymbol}
                 </span>
               </div>
 
@@ -669,17 +840,31 @@ export default function Calculator() {
                     {market.pointsMultiplier}x
                   </span>
                 </div>
-                <span className="text-lg font-bold text-black dark:text-white">
-                  {formatNumber(dailyPointsEarned)}/day
-                </span>
+                <div className="text-right">
+                  <span className="text-lg font-bold text-black dark:text-white">
+                    {formatNumber(dailyPointsEarned)}/day
+                  </span>
+                  <p className="text-xs text-black/40 dark:text-white/40">
+                    {emission.calibrated
+                      ? `${formatNumber(dailyPointsBand.low)}–${formatNumber(dailyPointsBand.high)} · ${emission.pointsPerDollar.toFixed(3)} pts/$`
+                      : "1 pt/$ (not yet calibrated)"}
+                  </p>
+                </div>
               </div>
 
               {/* Total Points */}
               <div className="px-6 py-4 flex justify-between items-center">
                 <span className="text-black/60 dark:text-white/60 uppercase text-sm">Total Points to Maturity</span>
-                <span className="text-lg font-bold text-black dark:text-white">
-                  {formatNumber(totalPointsEarned)}
-                </span>
+                <div className="text-right">
+                  <span className="text-lg font-bold text-black dark:text-white">
+                    {formatNumber(totalPointsEarned)}
+                  </span>
+                  {emission.calibrated && (
+                    <p className="text-xs text-black/40 dark:text-white/40">
+                      {formatNumber(totalPointsBand.low)}–{formatNumber(totalPointsBand.high)} (95%)
+                    </p>
+                  )}
+                </div>
               </div>
 
               {/* Cost of Position */}
@@ -728,7 +913,7 @@ export default function Calculator() {
               {/* Summary */}
               <div className="px-6 py-4 bg-black/5 dark:bg-white/5">
                 <p className="text-sm text-black/70 dark:text-white/70">
-                  Investing <strong className="text-black dark:text-white">{formatNumber(amount)} {market.symbol}</strong> gets you{" "}
+                  Investing <strong className="text-black dark:text-white">{formatNumber(amount)} {marketSymbol}</strong> gets you{" "}
                   <strong className="text-black dark:text-white">{formatNumber(ytReceived)} YT</strong> at{" "}
                   <strong className="text-black dark:text-white">{effectiveLeverage.toFixed(1)}x</strong> leverage, earning{" "}
                   <strong className="text-black dark:text-white">{formatNumber(totalPointsEarned)}</strong> points
@@ -740,8 +925,126 @@ export default function Calculator() {
         </div>
       )}
 
-      {/* Combined ROI Breakdown Table */}
+      {/* YT vs LP */}
+      {hasCalculated && !error && (
+        <div className="bg-white dark:bg-black border-2 border-black dark:border-white overflow-hidden">
+          <div className="bg-black dark:bg-white px-6 py-4">
+            <h3 className="font-bold uppercase text-white dark:text-black text-lg">YT vs LP</h3>
+            <p className="text-xs text-white/50 dark:text-black/50 uppercase mt-0.5">
+              {formatNumber(amount)} {marketSymbol} into {getMarketName(market)} YT or LP, held to maturity
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-black/5 dark:bg-white/5 text-left text-xs uppercase text-black/40 dark:text-white/40 border-b border-black/10 dark:border-white/10">
+                  <th className="py-3 px-6"></th>
+                  <th className="py-3 px-6 text-right">YT</th>
+                  <th className="py-3 px-6 text-right">LP</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-black/20 dark:divide-white/20">
+                <tr>
+                  <td className="py-3 px-6 text-black/60 dark:text-white/60 uppercase">Received</td>
+                  <td className="py-3 px-6 text-right font-bold text-black dark:text-white">{formatNumber(ytReceived)} YT</td>
+                  <td className="py-3 px-6 text-right font-bold text-black dark:text-white">
+                    {lpQuote ? `${formatNumber(lpReceived, 4)} LP` : lpError ?? "-"}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-3 px-6 text-black/60 dark:text-white/60 uppercase">Price Impact</td>
+                  <td className="py-3 px-6 text-right text-black/60 dark:text-white/60">-</td>
+                  <td className="py-3 px-6 text-right text-black/60 dark:text-white/60">
+                    {lpQuote?.priceImpact != null ? formatPercent(lpQuote.priceImpact) : "-"}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-3 px-6 text-black/60 dark:text-white/60 uppercase">Daily Points</td>
+                  <td className="py-3 px-6 text-right font-bold text-black dark:text-white">{formatNumber(dailyPointsEarned)}/day</td>
+                  <td className="py-3 px-6 text-right font-bold text-black dark:text-white">
+                    {!hasLpPoints ? "-" : `${formatNumber(lpDailyPointsBand.estimate)}/day`}
+                    {hasLpPoints && (
+                      <span className="block text-xs font-normal text-black/40 dark:text-white/40">
+                        {formatPercent(lpSyShare)} SY × {formatPercent(1 - market.feeSplit.lpExcluded)} × {market.pointsMultiplier}x
+                      </span>
+                    )}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-3 px-6 text-black/60 dark:text-white/60 uppercase">Total Points to Maturity</td>
+                  <td className="py-3 px-6 text-right font-bold text-black dark:text-white">{formatNumber(totalPointsEarned)}</td>
+                  <td className="py-3 px-6 text-right font-bold text-black dark:text-white">
+                    {!hasLpPoints ? "-" : formatNumber(lpTotalPoints)}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-3 px-6 text-black/60 dark:text-white/60 uppercase">Yield to Maturity</td>
+                  <td className="py-3 px-6 text-right text-green-600 dark:text-green-400">
+                    ${formatNumber(underlyingYieldEarned, 2)}
+                  </td>
+                  <td className="py-3 px-6 text-right text-green-600 dark:text-green-400">
+                    ${formatNumber(lpYield.total, 2)}
+                    <span className="block text-xs text-black/40 dark:text-white/40">
+                      ${formatNumber(lpYield.underlyingYield, 2)} underlying · ${formatNumber(lpYield.ptYield, 2)} PT · ${formatNumber(lpYield.swapFees, 2)} fees
+                    </span>
+                  </td>
+                </tr>
+                <tr className="bg-black/5 dark:bg-white/5 font-bold">
+                  <td className="py-3 px-6 text-black dark:text-white uppercase">Value at Maturity</td>
+                  <td className="py-3 px-6 text-right text-black dark:text-white">${formatNumber(underlyingYieldEarned, 2)}</td>
+                  <td className="py-3 px-6 text-right text-black dark:text-white">${formatNumber(lpPositionUsd + lpYield.total, 2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="px-6 py-3 text-xs text-black/40 dark:text-white/40 border-t border-black/10 dark:border-white/10">
+            YT expires worthless and returns only its yield; LP keeps its value. LP points and yield use the quoted LP&apos;s value at the pool&apos;s current SY share.
+          </p>
+        </div>
+      )}
+
+      {/* Price impact by size */}
+      {hasCalculated && !error && (
+        <PriceImpactLadder market={market} amountUsd={inputValueUsd} />
+      )}
+
+      {/* FDV grid or Monte Carlo valuation */}
       {hasCalculated && !error && pointsData && (
+        <div className="flex border-2 border-black dark:border-white w-fit">
+          {([["grid", "FDV Scenarios"], ["simulation", "Simulation"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setValuation(value)}
+              className={`px-4 py-2 text-xs font-bold uppercase transition-colors ${
+                valuation === value
+                  ? "bg-black dark:bg-white text-white dark:text-black"
+                  : "bg-transparent text-black dark:text-white hover:bg-black/10 dark:hover:bg-white/10"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {hasCalculated && !error && pointsData && valuation === "simulation" && (
+        <AirdropSimulation
+          position={{
+            costUsd: inputValueUsd,
+            dailyPoints: dailyPointsEarned,
+            daysToExpiry,
+            yieldValue: inputValueUsd + expectedPnL,
+            currentPoints,
+          }}
+          defaultFdvMillion={FDV_SCENARIOS[1]}
+          defaultAirdropPercent={airdropAllocation}
+          defaultTgeDate={tgeDate}
+          defaultGrowthRate={pointsDailyGrowthRate}
+        />
+      )}
+
+      {/* Combined ROI Breakdown Table */}
+      {hasCalculated && !error && pointsData && valuation === "grid" && (
         <div className="bg-white dark:bg-black border-2 border-black dark:border-white overflow-hidden">
           {/* Header with Inflation Stats */}
           <div className="bg-black dark:bg-white">
@@ -840,6 +1143,18 @@ export default function Calculator() {
           )}
         </div>
       )}
+
+      {/* Budget Allocation */}
+      {pointsData && (
+        <PortfolioOptimizer
+          marketsInfo={marketsInfo}
+          fdvScenarios={FDV_SCENARIOS}
+          airdropAllocation={airdropAllocation}
+          totalSeasonPoints={totalSeasonPoints}
+          pointsPerDollar={emission.pointsPerDollar}
+          daysToTge={daysToTge}
+        />
+      )}
     </div>
   );
 }
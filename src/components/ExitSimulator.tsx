@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { PendleMarketConfig, UNDERLYINGS, getMarketName } from "@/lib/markets";
+import { MarketData, NormalizedSwapQuote } from "@/lib/types";
+import { parseUnits, formatUnits, calculateDaysToExpiry, formatNumber, formatPercent } from "@/lib/calculations";
+import { EmissionModel, applyEmission } from "@/lib/emission";
+
+interface ExitSimulatorProps {
+  market: PendleMarketConfig; // As scheduled now
+  marketData: MarketData | null;
+  pointValues: { fdv: number; pointValue: number }[]; // FDV in millions
+  emission: EmissionModel;
+  daysToTge: number; // Points only count until TGE
+}
+
+// Sell held YT now, or keep it to expiry for the remaining points and underlying yield.
+// Points already earned stay with the holder either way, so only what's left is compared.
+export default function ExitSimulator({ market, marketData, pointValues, emission, daysToTge }: ExitSimulatorProps) {
+  const [ytHeldInput, setYtHeldInput] = useState<string>("10000");
+  const [purchasePriceInput, setPurchasePriceInput] = useState<string>("");
+  const [sellQuote, setSellQuote] = useState<NormalizedSwapQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const marketSymbol = UNDERLYINGS[market.underlying].symbol;
+
+  const handleQuote = async () => {
+    const ytHeld = parseFloat(ytHeldInput);
+    if (isNaN(ytHeld) || ytHeld <= 0) {
+      setError("Please enter a valid YT amount");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSellQuote(null);
+
+    try {
+      const response = await fetch("/api/swap", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          market: market.market,
+          netFromTaker: parseUnits(ytHeld),
+          type: "yt-sell",
+        }),
+      });
+
+      if (!response.ok) throw new Error("Failed to fetch sell quote");
+      setSellQuote(await response.json());
+    } catch (err) {
+      console.error("Error fetching sell quote:", err);
+      setError("Failed to get sell quote");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ytHeld = sellQuote ? formatUnits(sellQuote.amountIn) : 0;
+  const underlyingPrice = marketData?.sy?.price?.usd || 1;
+  const purchasePrice = parseFloat(purchasePriceInput) || 0;
+  const costBasis = ytHeld * purchasePrice;
+
+  // Sell now
+  const underlyingOut = sellQuote ? formatUnits(sellQuote.amountOut) : 0;
+  const sellFee = sellQuote ? formatUnits(sellQuote.fee) : 0;
+  const sellValue = underlyingOut * underlyingPrice;
+  const spotValue = ytHeld * (marketData?.yt?.price?.usd || 0);
+  const sellImpact = spotValue > 0 ? 1 - sellValue / spotValue : 0;
+
+  // Hold to expiry: points at the market's scheduled multiplier until expiry or TGE, whichever comes first
+  const daysToExpiry = marketData ? calculateDaysToExpiry(marketData.expiry) : 0;
+  const pointsDays = Math.min(daysToExpiry, daysToTge);
+  const remainingPoints = applyEmission(ytHeld * market.pointsMultiplier * pointsDays, emission).estimate;
+  const remainingYield = ytHeld * underlyingPrice * (marketData?.underlyingApy || 0) * (daysToExpiry / 365);
+
+  const scenarios = pointValues.map(({ fdv, pointValue }) => {
+    const holdValue = remainingYield + remainingPoints * pointValue;
+    return { fdv, pointValue, holdValue, advantage: holdValue - sellValue };
+  });
+  // Lowest FDV at which holding beats selling
+  const breakevenFdv = scenarios.find((scenario) => scenario.advantage > 0)?.fdv ?? null;
+
+  const formatUsd = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Position Input */}
+      <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-bold uppercase text-black dark:text-white mb-3">
+              YT Held
+            </label>
+            <div className="relative">
+              <input
+                type="number"
+                value={ytHeldInput}
+                onChange={(e) => setYtHeldInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleQuote();
+                }}
+                placeholder="10000"
+                className="w-full px-4 py-3 text-lg font-bold border-2 border-black dark:border-white focus:outline-none focus:ring-0 bg-white dark:bg-black text-black dark:text-white"
+              />
+              <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-black/50 dark:text-white/50 uppercase">
+                YT
+              </span>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-bold uppercase text-black dark:text-white mb-3">
+              Purchase Price
+            </label>
+            <div className="relative">
+              <input
+                type="number"
+                value={purchasePriceInput}
+                onChange={(e) => setPurchasePriceInput(e.target.value)}
+                placeholder={marketData?.yt?.price?.usd?.toFixed(4) ?? "0.02"}
+                className="w-full px-4 py-3 text-lg font-bold border-2 border-black dark:border-white focus:outline-none focus:ring-0 bg-white dark:bg-black text-black dark:text-white"
+              />
+              <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-black/50 dark:text-white/50 uppercase">
+                $ / YT
+              </span>
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={handleQuote}
+          disabled={loading}
+          className="w-full px-6 py-3 bg-black dark:bg-white text-white dark:text-black font-bold uppercase border-2 border-black dark:border-white hover:bg-black/80 dark:hover:bg-white/80 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? (
+            <div className="w-5 h-5 border-2 border-current border-t-transparent animate-spin mx-auto" />
+          ) : (
+            "QUOTE EXIT"
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500 text-white px-6 py-4 border-2 border-black dark:border-white font-bold uppercase text-sm">
+          {error}
+        </div>
+      )}
+
+      {sellQuote && !error && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Sell Now */}
+            <div className="border-2 border-black dark:border-white bg-white dark:bg-black">
+              <div className="px-6 py-3 bg-black dark:bg-white">
+                <h3 className="font-bold uppercase text-white dark:text-black">Sell Now</h3>
+              </div>
+              <div className="divide-y-2 divide-black/10 dark:divide-white/10">
+                <div className="px-6 py-3 flex justify-between">
+                  <span className="text-black/60 dark:text-white/60 uppercase text-sm">Received</span>
+                  <span className="font-bold text-black dark:text-white">{formatNumber(underlyingOut, 4)} {marketSymbol}</span>
+                </div>
+                <div className="px-6 py-3 flex justify-between">
+                  <span className="text-black/60 dark:text-white/60 uppercase text-sm">Swap Fee</span>
+                  <span className="text-black/50 dark:text-white/50">{formatNumber(sellFee, 4)} {marketSymbol}</span>
+                </div>
+                <div className="px-6 py-3 flex justify-between">
+                  <span className="text-black/60 dark:text-white/60 uppercase text-sm">Price Impact</span>
+                  <span className="text-black/50 dark:text-white/50">{formatPercent(sellImpact)}</span>
+                </div>
+                <div className="px-6 py-3 flex justify-between bg-black/5 dark:bg-white/5">
+                  <span className="text-black dark:text-white font-bold uppercase text-sm">Realized Value</span>
+                  <span className="text-lg font-bold text-black dark:text-white">{formatUsd(sellValue)}</span>
+                </div>
+                {costBasis > 0 && (
+                  <div className="px-6 py-3 flex justify-between">
+                    <span className="text-black/60 dark:text-white/60 uppercase text-sm">P&L vs Purchase</span>
+                    <span className={`font-bold ${sellValue >= costBasis ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+                      {sellValue >= costBasis ? "+" : "-"}{formatUsd(Math.abs(sellValue - costBasis))} ({formatPercent((sellValue - costBasis) / costBasis)})
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Hold to Expiry */}
+            <div className="border-2 border-black dark:border-white bg-white dark:bg-black">
+              <div className="px-6 py-3 bg-black dark:bg-white">
+                <h3 className="font-bold uppercase text-white dark:text-black">Hold to Expiry</h3>
+              </div>
+              <div className="divide-y-2 divide-black/10 dark:divide-white/10">
+                <div className="px-6 py-3 flex justify-between">
+                  <span className="text-black/60 dark:text-white/60 uppercase text-sm">Days Left</span>
+                  <span className="font-bold text-black dark:text-white">{daysToExpiry}</span>
+                </div>
+                {pointsDays < daysToExpiry && (
+                  <div className="px-6 py-3 flex justify-between">
+                    <span className="text-black/60 dark:text-white/60 uppercase text-sm">Points Days (to TGE)</span>
+                    <span className="font-bold text-black dark:text-white">{pointsDays}</span>
+                  </div>
+                )}
+                <div className="px-6 py-3 flex justify-between">
+                  <span className="text-black/60 dark:text-white/60 uppercase text-sm">Remaining Points</span>
+                  <span className="font-bold text-black dark:text-white">{formatNumber(remainingPoints)}</span>
+                </div>
+                <div className="px-6 py-3 flex justify-between">
+                  <span className="text-black/60 dark:text-white/60 uppercase text-sm">Underlying Yield</span>
+                  <span className="font-bold text-green-600 dark:text-green-400">{formatUsd(remainingYield)}</span>
+                </div>
+                <div className="px-6 py-3 bg-black/5 dark:bg-white/5">
+                  <p className="text-sm text-black/70 dark:text-white/70">
+                    {breakevenFdv === null
+                      ? "Selling beats holding at every FDV scenario."
+                      : `Holding beats selling from a $${breakevenFdv}M FDV.`}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* By FDV */}
+          <div className="bg-white dark:bg-black border-2 border-black dark:border-white overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-black/5 dark:bg-white/5 text-left text-xs uppercase text-black/40 dark:text-white/40 border-b border-black/10 dark:border-white/10">
+                  <th className="py-3 px-6">FDV</th>
+                  <th className="py-3 px-6">Point Value</th>
+                  <th className="py-3 px-6 text-right">Sell Now</th>
+                  <th className="py-3 px-6 text-right">Hold to Expiry</th>
+                  <th className="py-3 px-6 text-right">Hold − Sell</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-black/20 dark:divide-white/20">
+                {scenarios.map((scenario) => (
+                  <tr key={scenario.fdv} className={scenario.advantage > 0 ? "bg-green-50/50 dark:bg-green-900/10" : ""}>
+                    <td className="py-3 px-6 font-bold text-black dark:text-white">${scenario.fdv}M</td>
+                    <td className="py-3 px-6 text-black/60 dark:text-white/60">${scenario.pointValue.toFixed(8)}</td>
+                    <td className="py-3 px-6 text-right text-black dark:text-white">{formatUsd(sellValue)}</td>
+                    <td className="py-3 px-6 text-right text-black dark:text-white">{formatUsd(scenario.holdValue)}</td>
+                    <td className={`py-3 px-6 text-right font-bold ${scenario.advantage > 0 ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+                      {scenario.advantage > 0 ? "+" : "-"}{formatUsd(Math.abs(scenario.advantage))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-6 py-3 text-xs text-black/40 dark:text-white/40 border-t border-black/10 dark:border-white/10">
+              {getMarketName(market)} · points already earned are kept either way. Holding assumes the underlying APY stays at{" "}
+              {formatPercent(marketData?.underlyingApy || 0)}.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,35 @@
 "use client";
 
 import React, { useState } from "react";
+import { PENDLE_MARKETS, UNDERLYINGS, NEUTRL_CONTRACTS } from "@/lib/markets";
 
 type FooterTab = "info" | "contracts";
 
-const CONTRACTS = {
+const CONTRACTS: Record<string, { name: string; address: string }[]> = {
   "Neutrl Protocol": [
-    { name: "NUSD", address: "0xe556aba6fe6036275ec1f87eda296be72c811bce" },
-    { name: "sNUSD", address: "0x08efcc2f3e61185d0ea7f8830b3fec9bfa2ee313" },
-    { name: "Lock Contract", address: "0x99161BA892ECae335616624c84FAA418F64FF9A6" },
-  ],
-  "Pendle NUSD Market (Feb 26)": [
-    { name: "Market", address: "0x6d520a943a4da0784917a2e71defe95248a1daa1" },
-    { name: "SY-NUSD", address: "0x29ac34026c369d21fe3b2c7735ec986e2880b347" },
-    { name: "PT-NUSD", address: "0x215a6a2a0d1c563d0cb55ebd8d126f3bc0b92cf2" },
-    { name: "YT-NUSD", address: "0x38fdf2dbaae0e1e42499a4c6dfecae3b5cb35c59" },
-  ],
-  "Pendle sNUSD Market (Mar 5)": [
-    { name: "Market", address: "0x6d8c4de7071d5aee27fc3a810764e62a4a00ceb9" },
-    { name: "SY-sNUSD", address: "0x10c5e7711eaddc1b6b64e40ef1976fc462666409" },
-    { name: "PT-sNUSD", address: "0x54bf2659b5cdfd86b75920e93c0844c0364f5166" },
-    { name: "YT-sNUSD", address: "0x08903411e7a3eb500e30aac3bdd44775055b8c00" },
+    { name: "NUSD", address: UNDERLYINGS.nusd.address },
+    { name: "sNUSD", address: UNDERLYINGS.snusd.address },
+    { name: "Lock Contract", address: NEUTRL_CONTRACTS.lock },
   ],
+  // One group per Pendle market in the registry
+  ...Object.fromEntries(
+    PENDLE_MARKETS.map((m) => {
+      const symbol = UNDERLYINGS[m.underlying].symbol;
+      return [
+        `Pendle ${symbol} Market (${m.label})`,
+        [
+          { name: "Market", address: m.market },
+          { name: `SY-${symbol}`, address: m.sy },
+          { name: `PT-${symbol}`, address: m.pt },
+          { name: `YT-${symbol}`, address: m.yt },
+        ],
+      ];
+    })
+  ),
   "Curve & Other": [
-    { name: "Curve NUSD-USDC Pool", address: "0x7E19F0253A564e026C63eeAA9338d6DBddeF3b09" },
-    { name: "USDC", address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" },
-    { name: "upNUSD (K3)", address: "0xd852a101B7C6e0C647C8418A763394A37Dd72bCa" },
+    { name: "Curve NUSD-USDC Pool", address: NEUTRL_CONTRACTS.curvePool },
+    { name: "USDC", address: NEUTRL_CONTRACTS.usdc },
+    { name: "upNUSD (K3)", address: NEUTRL_CONTRACTS.upnusd },
   ],
 };
 
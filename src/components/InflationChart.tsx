@@ -16,14 +16,15 @@ import {
 interface TimelineData {
   capturedAt: string;
   date: string;
-  s1RewardsIssued: number;
-  s1RewardsIssuedFormatted: string;
+  backfilled: boolean;
+  s1RewardsIssued: number | null; // Null for backfilled snapshots (TVL only)
+  s1RewardsIssuedFormatted: string | null;
   totalTvl: number;
   totalTvlFormatted: string;
   weightedTvl: number;
   weightedTvlFormatted: string;
   estDailyPoints: number;
-  participantCount: number;
+  participantCount: number | null;
   pointsChange: number;
   pointsChangeFormatted: string;
 }
@@ -130,6 +131,9 @@ export default function InflationChart({ timeline, growthRates }: InflationChart
   // Get baseline values (first data point) and latest values
   const baseline = timeline[0];
   const latest = timeline[timeline.length - 1];
+  // Points baseline/latest skip backfilled snapshots, which have no points total
+  const pointsBaseline = timeline.find((t) => t.s1RewardsIssued !== null)?.s1RewardsIssued ?? 0;
+  const pointsLatest = timeline.findLast((t) => t.s1RewardsIssued !== null)?.s1RewardsIssued ?? 0;
 
   // Generate projection data points
   const projectionData = useMemo(() => {
@@ -155,7 +159,7 @@ export default function InflationChart({ timeline, growthRates }: InflationChart
 
       const projectedTvl = latest.totalTvl * tvlMultiplier;
       const projectedWeightedTvl = latest.weightedTvl * weightedTvlMultiplier;
-      const projectedPoints = latest.s1RewardsIssued + projectedNewPoints;
+      const projectedPoints = pointsLatest + projectedNewPoints;
 
       projections.push({
         capturedAt: projDate.toISOString(),
@@ -168,12 +172,12 @@ export default function InflationChart({ timeline, growthRates }: InflationChart
         // Percentage changes from baseline
         projectedTvlPercent: ((projectedTvl - baseline.totalTvl) / baseline.totalTvl) * 100,
         projectedWeightedTvlPercent: ((projectedWeightedTvl - baseline.weightedTvl) / baseline.weightedTvl) * 100,
-        projectedPointsPercent: ((projectedPoints - baseline.s1RewardsIssued) / baseline.s1RewardsIssued) * 100,
+        projectedPointsPercent: ((projectedPoints - pointsBaseline) / pointsBaseline) * 100,
       });
     }
 
     return projections;
-  }, [showProjections, growthRates, latest, baseline, projectionDays]);
+  }, [showProjections, growthRates, latest, baseline, pointsBaseline, pointsLatest, projectionDays]);
 
   // Prepare chart data with percentage changes
   const historicalData = timeline.map((item) => ({
@@ -183,7 +187,9 @@ export default function InflationChart({ timeline, growthRates }: InflationChart
     // Percentage changes from baseline
     tvlPercent: ((item.totalTvl - baseline.totalTvl) / baseline.totalTvl) * 100,
     weightedTvlPercent: ((item.weightedTvl - baseline.weightedTvl) / baseline.weightedTvl) * 100,
-    pointsPercent: ((item.s1RewardsIssued - baseline.s1RewardsIssued) / baseline.s1RewardsIssued) * 100,
+    pointsPercent: item.s1RewardsIssued !== null
+      ? ((item.s1RewardsIssued - pointsBaseline) / pointsBaseline) * 100
+      : null,
   }));
 
   // Combine historical and projection data
@@ -198,7 +204,7 @@ export default function InflationChart({ timeline, growthRates }: InflationChart
   const maxTvl = Math.max(...allTvlValues) * 1.05;
 
   const allPointsValues = [
-    ...timeline.map((t) => t.s1RewardsIssued),
+    ...timeline.flatMap((t) => (t.s1RewardsIssued !== null ? [t.s1RewardsIssued] : [])),
     ...projectionData.map((p) => p.projectedPoints),
   ];
   const minPoints = Math.min(...allPointsValues) * 0.99;
@@ -208,7 +214,7 @@ export default function InflationChart({ timeline, growthRates }: InflationChart
   const allPercentValues = [
     ...historicalData.flatMap((t) => [t.tvlPercent, t.weightedTvlPercent, t.pointsPercent]),
     ...projectionData.flatMap((p) => [p.projectedTvlPercent, p.projectedWeightedTvlPercent, p.projectedPointsPercent]),
-  ];
+  ].filter((value): value is number => value !== null);
   const minPercent = Math.min(...allPercentValues, 0);
   const maxPercent = Math.max(...allPercentValues) * 1.1;
 
@@ -0,0 +1,337 @@
+"use client";
+
+import { useState } from "react";
+import { PENDLE_MARKETS, getMarketName, isMarketMatured } from "@/lib/markets";
+import { MarketData, NormalizedSwapQuote } from "@/lib/types";
+import { parseUnits, formatUnits, calculateDaysToExpiry, formatNumber, formatPercent } from "@/lib/calculations";
+import { getScheduledTvlCategories } from "@/lib/boostSchedule";
+import { applyLiveBoosts, getEffectiveBoost } from "@/lib/weighting";
+import { AllocationOption, interpolateQuotes, optimizeAllocation } from "@/lib/optimizer";
+import { TvlApiResponse, useTvlData } from "@/hooks/useTvlData";
+
+// Budget shares quoted on Pendle; YT received in between is interpolated
+const QUOTE_FRACTIONS = [0.1, 0.25, 0.5, 0.75, 1];
+
+const LOCK_OPTIONS = [0, 3, 6, 9, 12]; // Longest lock (months) to consider, 0 = no locks
+
+interface PortfolioOptimizerProps {
+  marketsInfo: Record<string, { data: MarketData | null }>;
+  fdvScenarios: number[];    // In millions
+  airdropAllocation: number; // % of supply
+  totalSeasonPoints: number;
+  pointsPerDollar: number;   // Calibrated emission, points per weighted dollar per day
+  daysToTge: number;
+}
+
+// YT received (tokens) for budget sizes in USD, by market key
+type QuoteLadders = Record<string, { size: number; received: number }[]>;
+
+async function fetchQuoteLadder(market: string, budget: number, underlyingPrice: number) {
+  const ladder: { size: number; received: number }[] = [];
+  for (const fraction of QUOTE_FRACTIONS) {
+    const size = budget * fraction;
+    const response = await fetch("/api/swap", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ market, netFromTaker: parseUnits(size / underlyingPrice) }),
+    });
+    if (!response.ok) throw new Error("Failed to fetch swap quote");
+    const quote: NormalizedSwapQuote = await response.json();
+    ladder.push({ size, received: formatUnits(quote.amountOut) });
+  }
+  return ladder;
+}
+
+// Every position the budget can go to, valued at the same end date: TGE or the last active
+// expiry, whichever is later. Points stop at TGE (and at expiry for YT and LP); yield runs to
+// the end date, except for YT and LP, whose proceeds sit idle after expiry. A lock earns its
+// boost for the lock period only, then the unlocked boost.
+function buildOptions(
+  props: PortfolioOptimizerProps,
+  tvlData: TvlApiResponse | null,
+  ladders: QuoteLadders,
+  maxLockMonths: number
+): AllocationOption[] {
+  const { marketsInfo, pointsPerDollar, daysToTge } = props;
+  const scheduled = getScheduledTvlCategories(PENDLE_MARKETS);
+  const categories = applyLiveBoosts(scheduled.categories, tvlData?.liveBoosts);
+  const holdRows = categories.flatMap((cat) => cat.rows);
+  const options: AllocationOption[] = [];
+
+  const activeMarkets = scheduled.markets.filter((market) =>
+    marketsInfo[market.key]?.data && !isMarketMatured(market) && !market.pendingApproval
+  );
+  const horizonDays = Math.max(
+    daysToTge,
+    ...activeMarkets.map((market) => calculateDaysToExpiry(marketsInfo[market.key].data!.expiry))
+  );
+
+  activeMarkets.forEach((market) => {
+    const data = marketsInfo[market.key].data!;
+
+    const name = getMarketName(market);
+    const daysToExpiry = calculateDaysToExpiry(data.expiry);
+    const pointsDays = Math.min(daysToExpiry, daysToTge);
+    const yearsToExpiry = daysToExpiry / 365;
+    const price = data.sy?.price?.usd || 1;
+    const multiplier = market.pointsMultiplier;
+
+    const ladder = ladders[market.key];
+    if (ladder) {
+      const ytAt = interpolateQuotes(ladder);
+      options.push({
+        id: `yt-${market.key}`,
+        name: `YT ${name}`,
+        evaluate: (amount) => {
+          const ytUsd = ytAt(amount) * price;
+          return {
+            points: ytUsd * multiplier * (1 - market.feeSplit.pendleFee) * pointsDays * pointsPerDollar,
+            // YT expires worthless; what comes back is the underlying yield it collects
+            returned: ytUsd * data.underlyingApy * yearsToExpiry,
+          };
+        },
+      });
+    }
+
+    // Only the SY side of the pool earns points
+    const lp = tvlData?.markets[market.key];
+    const syShare = lp && lp.lpTvl > 0 ? lp.lpSyTvl / lp.lpTvl : 0.5;
+    const lpApy = syShare * data.underlyingApy + (1 - syShare) * data.impliedApy + (data.swapFeeApy ?? 0);
+    options.push({
+      id: `lp-${market.key}`,
+      name: `LP ${name}`,
+      evaluate: (amount) => ({
+        points: amount * syShare * (1 - market.feeSplit.lpExcluded) * multiplier * pointsDays * pointsPerDollar,
+        returned: amount * (1 + lpApy * yearsToExpiry),
+      }),
+    });
+  });
+
+  const snusdApy = tvlData?.snusd.underlyingApy ?? 0;
+  const horizonYears = horizonDays / 365;
+  const boostOf = (rowId: string) => {
+    const row = holdRows.find((r) => r.id === rowId);
+    return row ? getEffectiveBoost(row) : 0;
+  };
+  // Lock months count as 30 days; a lock that ends before TGE earns the unlocked row's boost after
+  const holdOption = (rowId: string, apy: number, lock?: { months: number; unlockedRowId: string }) => {
+    const row = holdRows.find((r) => r.id === rowId);
+    if (!row) return;
+    const boost = getEffectiveBoost(row);
+    const boostedDays = lock ? Math.min(lock.months * 30, daysToTge) : daysToTge;
+    const unlockedDays = daysToTge - boostedDays;
+    const unlockedBoost = lock ? boostOf(lock.unlockedRowId) : 0;
+    options.push({
+      id: rowId,
+      name: row.name.replace(" (unlocked)", ""),
+      evaluate: (amount) => ({
+        points: amount * (boost * boostedDays + unlockedBoost * unlockedDays) * pointsPerDollar,
+        returned: amount * (1 + apy * horizonYears),
+      }),
+    });
+  };
+
+  holdOption("hold-nusd", 0);
+  holdOption("hold-snusd", snusdApy);
+  holdOption("hold-curve-lp", 0);
+  LOCK_OPTIONS.filter((months) => months > 0 && months <= maxLockMonths).forEach((months) => {
+    holdOption(`lock-nusd-${months}mo`, 0, { months, unlockedRowId: "hold-nusd" });
+    holdOption(`lock-snusd-${months}mo`, snusdApy, { months, unlockedRowId: "hold-snusd" });
+    holdOption(`lock-curve-${months}mo`, 0, { months, unlockedRowId: "hold-curve-lp" });
+  });
+
+  return options;
+}
+
+export default function PortfolioOptimizer(props: PortfolioOptimizerProps) {
+  const { marketsInfo, fdvScenarios, airdropAllocation, totalSeasonPoints, daysToTge } = props;
+  const { data: tvlData } = useTvlData();
+
+  const [budgetInput, setBudgetInput] = useState<string>("10000");
+  const [fdv, setFdv] = useState<number>(fdvScenarios[1] ?? fdvScenarios[0]);
+  const [maxLockMonths, setMaxLockMonths] = useState<number>(0);
+  const [quotedBudget, setQuotedBudget] = useState<number | null>(null);
+  const [ladders, setLadders] = useState<QuoteLadders>({});
+  const [quoteErrors, setQuoteErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pointValue = totalSeasonPoints > 0 ? (fdv * 1_000_000 * (airdropAllocation / 100)) / totalSeasonPoints : 0;
+
+  // Quote every active market's YT at a few sizes up to the budget, so price impact is priced in
+  const handleOptimize = async () => {
+    const budget = parseFloat(budgetInput);
+    if (isNaN(budget) || budget <= 0) {
+      setError("Please enter a valid budget");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const nextLadders: QuoteLadders = {};
+    const failed: string[] = [];
+    for (const market of PENDLE_MARKETS) {
+      const data = marketsInfo[market.key]?.data;
+      if (!data || isMarketMatured(market) || market.pendingApproval) continue;
+      try {
+        nextLadders[market.key] = await fetchQuoteLadder(market.market, budget, data.sy?.price?.usd || 1);
+      } catch (err) {
+        console.error(`Error fetching ${market.key} quote ladder:`, err);
+        failed.push(getMarketName(market));
+      }
+    }
+
+    setLadders(nextLadders);
+    setQuoteErrors(failed);
+    setQuotedBudget(budget);
+    setLoading(false);
+  };
+
+  // Re-split on every change of FDV, lock or Calculator inputs; only the quotes need a refetch
+  const plan = quotedBudget === null
+    ? null
+    : optimizeAllocation(buildOptions(props, tvlData, ladders, maxLockMonths), quotedBudget, pointValue);
+
+  const formatUsd = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="bg-white dark:bg-black border-2 border-black dark:border-white overflow-hidden">
+      <div className="bg-black dark:bg-white px-6 py-4">
+        <h3 className="font-bold uppercase text-white dark:text-black text-lg">Portfolio Optimizer</h3>
+        <p className="text-xs text-white/50 dark:text-black/50 uppercase mt-0.5">
+          Split a budget across YT, LP, holding, locking and Curve LP for the most points value plus yield
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex gap-3">
+          <div className="relative flex-1">
+            <input
+              type="number"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleOptimize();
+              }}
+              placeholder="10000"
+              className="w-full px-4 py-3 text-lg font-bold border-2 border-black dark:border-white focus:outline-none focus:ring-0 bg-white dark:bg-black text-black dark:text-white"
+            />
+            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-black/50 dark:text-white/50 uppercase">
+              USD
+            </span>
+          </div>
+          <button
+            onClick={handleOptimize}
+            disabled={loading}
+            className="px-6 py-3 bg-black dark:bg-white text-white dark:text-black font-bold uppercase border-2 border-black dark:border-white hover:bg-black/80 dark:hover:bg-white/80 disabled:opacity-50 disabled:cursor-not-allowed min-w-[120px]"
+          >
+            {loading ? (
+              <div className="w-5 h-5 border-2 border-current border-t-transparent animate-spin mx-auto" />
+            ) : (
+              "OPTIMIZE"
+            )}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-xs text-black/50 dark:text-white/50 uppercase mb-2">FDV Scenario</p>
+            <div className="flex flex-wrap gap-2">
+              {fdvScenarios.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setFdv(value)}
+                  className={`px-3 py-2 text-xs font-bold uppercase border-2 transition-colors ${
+                    fdv === value
+                      ? "bg-black dark:bg-white text-white dark:text-black border-black dark:border-white"
+                      : "bg-transparent text-black/60 dark:text-white/60 border-black/30 dark:border-white/30 hover:border-black dark:hover:border-white hover:text-black dark:hover:text-white"
+                  }`}
+                >
+                  ${value}M
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs text-black/50 dark:text-white/50 uppercase mb-2">Longest Lock</p>
+            <div className="flex flex-wrap gap-2">
+              {LOCK_OPTIONS.map((months) => (
+                <button
+                  key={months}
+                  onClick={() => setMaxLockMonths(months)}
+                  className={`px-3 py-2 text-xs font-bold uppercase border-2 transition-colors ${
+                    maxLockMonths === months
+                      ? "bg-black dark:bg-white text-white dark:text-black border-black dark:border-white"
+                      : "bg-transparent text-black/60 dark:text-white/60 border-black/30 dark:border-white/30 hover:border-black dark:hover:border-white hover:text-black dark:hover:text-white"
+                  }`}
+                >
+                  {months === 0 ? "No Lock" : `${months} mo`}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-black/40 dark:text-white/40">
+          Point value ${pointValue.toFixed(8)} at ${fdv}M FDV and {airdropAllocation}% airdrop · {daysToTge} days to TGE
+        </p>
+
+        {error && (
+          <div className="bg-red-500 text-white px-6 py-4 border-2 border-black dark:border-white font-bold uppercase text-sm">
+            {error}
+          </div>
+        )}
+        {quoteErrors.length > 0 && (
+          <p className="text-xs text-yellow-600 dark:text-yellow-400">
+            No swap quotes for {quoteErrors.join(", ")} - YT left out of the allocation
+          </p>
+        )}
+      </div>
+
+      {plan && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-black/5 dark:bg-white/5 text-left text-xs uppercase text-black/40 dark:text-white/40 border-b border-black/10 dark:border-white/10">
+                <th className="py-3 px-6">Position</th>
+                <th className="py-3 px-6 text-right">Allocation</th>
+                <th className="py-3 px-6 text-right">Expected Points</th>
+                <th className="py-3 px-6 text-right">Points $</th>
+                <th className="py-3 px-6 text-right">Returned $</th>
+                <th className="py-3 px-6 text-right">ROI</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-black/20 dark:divide-white/20">
+              {[...plan.allocations, plan.total].map((row) => {
+                const isTotal = row.id === "total";
+                return (
+                  <tr key={row.id} className={isTotal ? "bg-black/5 dark:bg-white/5 font-bold" : "hover:bg-black/5 dark:hover:bg-white/5 transition-colors"}>
+                    <td className="py-3 px-6 font-bold text-black dark:text-white">{row.name}</td>
+                    <td className="py-3 px-6 text-right text-black dark:text-white">
+                      {formatUsd(row.amount)}
+                      <span className="ml-2 text-xs text-black/40 dark:text-white/40">
+                        {plan.total.amount > 0 ? ((row.amount / plan.total.amount) * 100).toFixed(0) : 0}%
+                      </span>
+                    </td>
+                    <td className="py-3 px-6 text-right text-black/60 dark:text-white/60">{formatNumber(row.points)}</td>
+                    <td className="py-3 px-6 text-right text-black dark:text-white">{formatUsd(row.pointsValue)}</td>
+                    <td className="py-3 px-6 text-right text-green-600 dark:text-green-400">{formatUsd(row.returned)}</td>
+                    <td className={`py-3 px-6 text-right font-bold ${row.roi >= 0 ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+                      {row.roi >= 0 ? "+" : ""}{formatPercent(row.roi)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="px-6 py-3 text-xs text-black/40 dark:text-white/40 border-t border-black/10 dark:border-white/10">
+            YT priced from Pendle quotes up to the full budget, so price impact is included.
+            Returned $ is principal left plus yield - YT returns only its yield. Boosts as scheduled now.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { PendleMarketConfig, getMarketName } from "@/lib/markets";
+import { formatPercent } from "@/lib/calculations";
+import type { SwapLadder } from "@/lib/swapLadder";
+
+interface PriceImpactLadderProps {
+  market: PendleMarketConfig;
+  amountUsd: number; // The Calculator's entered amount, for chunk counts
+}
+
+function formatUsdShort(value: number): string {
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(value % 1e6 === 0 ? 0 : 1)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(value % 1e3 === 0 ? 0 : 1)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+export default function PriceImpactLadder({ market, amountUsd }: PriceImpactLadderProps) {
+  const [ladder, setLadder] = useState<SwapLadder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchLadder = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/swap/ladder?market=${market.market}`);
+        if (!response.ok) throw new Error("Failed to fetch swap ladder");
+        const data: SwapLadder = await response.json();
+        if (!cancelled) setLadder(data);
+      } catch (err) {
+        console.error("Error fetching swap ladder:", err);
+        if (!cancelled) setError("Failed to load price impact curve");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchLadder();
+    return () => {
+      cancelled = true;
+    };
+  }, [market.market]);
+
+  const chartData = ladder?.points.map((point) => ({
+    size: formatUsdShort(point.sizeUsd),
+    ytPerDollar: point.ytPerDollar,
+    feeBps: point.feeBps,
+    impliedApyImpact: point.impliedApyImpact === null ? null : point.impliedApyImpact * 100,
+  })) ?? [];
+
+  return (
+    <div className="bg-white dark:bg-black border-2 border-black dark:border-white overflow-hidden">
+      <div className="bg-black dark:bg-white px-6 py-4">
+        <h3 className="font-bold uppercase text-white dark:text-black text-lg">Price Impact</h3>
+        <p className="text-xs text-white/50 dark:text-black/50 uppercase mt-0.5">
+          YT {getMarketName(market)} buy quotes from $1K to $5M
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-5 h-5 border-2 border-current border-t-transparent animate-spin" />
+        </div>
+      ) : error || !ladder ? (
+        <p className="px-6 py-4 text-sm text-red-500 font-bold uppercase">{error}</p>
+      ) : (
+        <div className="p-6 space-y-6">
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-black/10 dark:stroke-white/10" />
+                <XAxis
+                  dataKey="size"
+                  tick={{ fill: "currentColor", fontSize: 11 }}
+                  className="text-black dark:text-white"
+                  stroke="currentColor"
+                />
+                <YAxis
+                  yAxisId="yt"
+                  orientation="left"
+                  tickFormatter={(value) => value.toFixed(0)}
+                  tick={{ fill: "currentColor", fontSize: 11 }}
+                  className="text-black dark:text-white"
+                  stroke="currentColor"
+                  label={{
+                    value: "YT per $",
+                    angle: -90,
+                    position: "insideLeft",
+                    style: { textAnchor: "middle", fill: "currentColor", fontSize: 12 },
+                  }}
+                />
+                <YAxis
+                  yAxisId="impact"
+                  orientation="right"
+                  tick={{ fill: "currentColor", fontSize: 11 }}
+                  className="text-black dark:text-white"
+                  stroke="currentColor"
+                  label={{
+                    value: "Fee bps / APY impact %",
+                    angle: 90,
+                    position: "insideRight",
+                    style: { textAnchor: "middle", fill: "currentColor", fontSize: 12 },
+                  }}
+                />
+                <Tooltip
+                  formatter={(value, name) => [
+                    typeof value === "number" ? value.toFixed(name === "YT per $" ? 2 : 3) : "-",
+                    name,
+                  ]}
+                />
+                <Legend
+                  wrapperStyle={{ paddingTop: 20 }}
+                  formatter={(value) => (
+                    <span className="text-black dark:text-white text-sm font-medium">
+                      {value}
+                    </span>
+                  )}
+                />
+                <Line
+                  yAxisId="yt"
+                  type="monotone"
+                  dataKey="ytPerDollar"
+                  name="YT per $"
+                  stroke="#000000"
+                  strokeWidth={2}
+                  dot={{ fill: "#000000", strokeWidth: 0, r: 4 }}
+                  className="dark:stroke-white dark:[&_.recharts-line-dot]:fill-white"
+                />
+                <Line
+                  yAxisId="impact"
+                  type="monotone"
+                  dataKey="feeBps"
+                  name="Fee (bps)"
+                  stroke="#666666"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={{ fill: "#666666", strokeWidth: 0, r: 4 }}
+                />
+                <Line
+                  yAxisId="impact"
+                  type="monotone"
+                  dataKey="impliedApyImpact"
+                  name="Implied APY impact (%)"
+                  stroke="#ef4444"
+                  strokeWidth={2}
+                  dot={{ fill: "#ef4444", strokeWidth: 0, r: 4 }}
+                  connectNulls={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Chunked entry */}
+          <div>
+            <p className="text-xs text-black/50 dark:text-white/50 uppercase mb-3">Recommended Chunk Size</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {ladder.chunks.map((chunk) => (
+                <div key={chunk.maxImpact} className="p-3 border-2 border-black/30 dark:border-white/30">
+                  <p className="text-xs text-black/50 dark:text-white/50 uppercase">≤ {formatPercent(chunk.maxImpact)} impact</p>
+                  <p className="text-lg font-bold text-black dark:text-white">
+                    {chunk.sizeUsd === null ? "-" : formatUsdShort(chunk.sizeUsd)}
+                  </p>
+                  {chunk.sizeUsd !== null && amountUsd > 0 && (
+                    <p className="text-xs text-black/40 dark:text-white/40">
+                      {Math.ceil(amountUsd / chunk.sizeUsd)} chunk{Math.ceil(amountUsd / chunk.sizeUsd) === 1 ? "" : "s"} for {formatUsdShort(amountUsd)}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-black/40 dark:text-white/40">
+              Impact is YT per dollar lost against a $1K buy. Spacing chunks out gives the pool time to rebalance between buys.
+            </p>
+          </div>
+
+          {ladder.failedSizes.length > 0 && (
+            <p className="text-xs text-yellow-600 dark:text-yellow-400">
+              No quote for {ladder.failedSizes.map(formatUsdShort).join(", ")} - likely beyond the pool&apos;s liquidity
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
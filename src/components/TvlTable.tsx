@@ -1,91 +1,69 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { TVL_CATEGORIES, TvlRow } from "@/lib/tvlData";
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  TVL_CATEGORIES,
+  TvlRow,
+} from "@/lib/tvlData";
+import { getScheduledTvlCategories, getUpcomingBoostChanges } from "@/lib/boostSchedule";
+import { applyLiveBoosts, getEffectiveBoost, getLiveRowTvls, weighRows } from "@/lib/weighting";
+import { PENDLE_MARKETS } from "@/lib/markets";
+import { getTrackedMarkets } from "@/lib/marketDiscovery";
 import { formatNumber } from "@/lib/calculations";
 import { useTvlData } from "@/hooks/useTvlData";
 import { usePointsData } from "@/hooks/usePointsData";
+import { useDiscoveredMarkets } from "@/hooks/useDiscoveredMarkets";
+import { useInflationData } from "@/hooks/useInflationData";
+import { DEFAULT_EMISSION_MODEL, applyEmission } from "@/lib/emission";
 
 interface RowData {
   tvlAmount: string;
   boost: number;
 }
 
-// Map row IDs to their live data source type
-type LiveDataSource =
-  | "yt-nusd"
-  | "yt-snusd"
-  | "yt-nusd-fee"
-  | "yt-snusd-fee"
-  | "yt-nusd-net"
-  | "yt-snusd-net"
-  | "lp-nusd"
-  | "lp-snusd"
-  | "lp-nusd-excluded"
-  | "lp-snusd-excluded"
-  | "lp-nusd-net"
-  | "lp-snusd-net"
-  | "pt-nusd"
-  | "pt-snusd"
-  | "hold-nusd"
-  | "hold-snusd"
-  | "hold-upnusd"
-  | "hold-curve-lp"
-  | "curve-nusd"
-  | "curve-usdc"
-  | "lock-nusd-3mo"
-  | "lock-nusd-6mo"
-  | "lock-nusd-9mo"
-  | "lock-nusd-12mo"
-  | "lock-snusd-3mo"
-  | "lock-snusd-6mo"
-  | "lock-snusd-9mo"
-  | "lock-snusd-12mo"
-  | "lock-curve-3mo"
-  | "lock-curve-6mo";
-
-const LIVE_DATA_MAP: Record<string, LiveDataSource> = {
-  // February 2026 Market
-  "yt-nusd-feb26": "yt-nusd",
-  "pendle-fee-nusd": "yt-nusd-fee",
-  "yt-nusd-feb26-net": "yt-nusd-net",
-  "lp-nusd-feb26": "lp-nusd",
-  "lp-excluded-nusd": "lp-nusd-excluded",
-  "lp-nusd-feb26-net": "lp-nusd-net",
-  "pt-nusd-feb26": "pt-nusd",
-  // March 2026 Market
-  "yt-snusd-mar26": "yt-snusd",
-  "pendle-fee-snusd": "yt-snusd-fee",
-  "yt-snusd-mar26-net": "yt-snusd-net",
-  "lp-snusd-mar26": "lp-snusd",
-  "lp-excluded-snusd": "lp-snusd-excluded",
-  "lp-snusd-mar26-net": "lp-snusd-net",
-  "pt-snusd-mar26": "pt-snusd",
+// Hold-section row IDs that are auto-populated from /api/tvl
+// (Pendle market rows are always live)
+const LIVE_ROW_IDS = new Set<string>([
   // Hold section
-  "hold-nusd": "hold-nusd",
-  "hold-snusd": "hold-snusd",
-  "hold-upnusd": "hold-upnusd",
-  "hold-curve-lp": "hold-curve-lp",
-  "curve-nusd-breakdown": "curve-nusd",
-  "curve-usdc-breakdown": "curve-usdc",
+  "hold-nusd",
+  "hold-snusd",
+  "hold-upnusd",
+  "hold-curve-lp",
+  "curve-nusd-breakdown",
+  "curve-usdc-breakdown",
   // Lock contract data - NUSD (3mo, 6mo, 9mo, 12mo)
-  "lock-nusd-3mo": "lock-nusd-3mo",
-  "lock-nusd-6mo": "lock-nusd-6mo",
-  "lock-nusd-9mo": "lock-nusd-9mo",
-  "lock-nusd-12mo": "lock-nusd-12mo",
+  "lock-nusd-3mo",
+  "lock-nusd-6mo",
+  "lock-nusd-9mo",
+  "lock-nusd-12mo",
   // Lock contract data - sNUSD (3mo, 6mo, 9mo, 12mo)
-  "lock-snusd-3mo": "lock-snusd-3mo",
-  "lock-snusd-6mo": "lock-snusd-6mo",
-  "lock-snusd-9mo": "lock-snusd-9mo",
-  "lock-snusd-12mo": "lock-snusd-12mo",
+  "lock-snusd-3mo",
+  "lock-snusd-6mo",
+  "lock-snusd-9mo",
+  "lock-snusd-12mo",
   // Lock contract data - Curve LP (3mo, 6mo max)
-  "lock-curve-3mo": "lock-curve-3mo",
-  "lock-curve-6mo": "lock-curve-6mo",
-};
+  "lock-curve-3mo",
+  "lock-curve-6mo",
+]);
 
 export default function TvlTable() {
   const { data: tvlData, loading: tvlLoading } = useTvlData();
   const { data: pointsData, loading: pointsLoading } = usePointsData();
+  const { data: discoveredMarkets } = useDiscoveredMarkets();
+  const { data: inflationData } = useInflationData();
+
+  // Discovered markets render below the registry markets; pending ones are display-only.
+  // Categories are rebuilt here rather than taken from TVL_CATEGORIES so maturity is checked against now.
+  const trackedMarkets = useMemo(() => getTrackedMarkets(discoveredMarkets), [discoveredMarkets]);
+  // Boosts come from the schedule in effect now; those read from live data (e.g. the upNUSD
+  // multiplier) replace the scheduled ones.
+  const allMarkets = useMemo(() => [...PENDLE_MARKETS, ...trackedMarkets], [trackedMarkets]);
+  const scheduled = useMemo(() => getScheduledTvlCategories(allMarkets), [allMarkets]);
+  const categories = useMemo(
+    () => applyLiveBoosts(scheduled.categories, tvlData?.liveBoosts),
+    [scheduled, tvlData?.liveBoosts]
+  );
+  const upcomingBoostChanges = useMemo(() => getUpcomingBoostChanges(allMarkets), [allMarkets]);
 
   const [rowData, setRowData] = useState<Record<string, RowData>>(() => {
     const initial: Record<string, RowData> = {};
@@ -106,174 +84,16 @@ export default function TvlTable() {
       setRowData((prev) => {
         const updated = { ...prev };
 
-        // NUSD Market Data
-        if (tvlData.nusd) {
-          const nusdData = tvlData.nusd;
-
-          // YT NUSD - 1 YT = 1 underlying token for points, use underlying price
-          const ytNusdTvl = nusdData.ytTotalSupply * nusdData.underlyingPrice;
-          if (updated["yt-nusd-feb26"]) {
-            updated["yt-nusd-feb26"] = { ...updated["yt-nusd-feb26"], tvlAmount: ytNusdTvl.toString() };
-          }
-
-          // Pendle Fee (5% of YT)
-          const feeNusd = ytNusdTvl * 0.05;
-          if (updated["pendle-fee-nusd"]) {
-            updated["pendle-fee-nusd"] = { ...updated["pendle-fee-nusd"], tvlAmount: feeNusd.toString() };
-          }
-
-          // YT NUSD NET (95% of YT)
-          const netNusd = ytNusdTvl * 0.95;
-          if (updated["yt-nusd-feb26-net"]) {
-            updated["yt-nusd-feb26-net"] = { ...updated["yt-nusd-feb26-net"], tvlAmount: netNusd.toString() };
-          }
-
-          // LP NUSD - Full SY TVL (display only)
-          if (updated["lp-nusd-feb26"]) {
-            updated["lp-nusd-feb26"] = { ...updated["lp-nusd-feb26"], tvlAmount: nusdData.lpSyTvl.toString() };
-          }
-
-          // LP Excluded (20% of SY) - display only, doesn't earn points
-          const lpExcludedNusd = nusdData.lpSyTvl * 0.2;
-          if (updated["lp-excluded-nusd"]) {
-            updated["lp-excluded-nusd"] = { ...updated["lp-excluded-nusd"], tvlAmount: lpExcludedNusd.toString() };
-          }
-
-          // LP NET (80% of SY) - THIS earns points
-          const lpNetNusd = nusdData.lpSyTvl * 0.8;
-          if (updated["lp-nusd-feb26-net"]) {
-            updated["lp-nusd-feb26-net"] = { ...updated["lp-nusd-feb26-net"], tvlAmount: lpNetNusd.toString() };
-          }
-
-          // PT NUSD - use PT total supply × PT price for TVL (display only, excluded from points)
-          const ptNusdTvl = nusdData.ptTotalSupply * nusdData.ptPrice;
-          if (updated["pt-nusd-feb26"]) {
-            updated["pt-nusd-feb26"] = { ...updated["pt-nusd-feb26"], tvlAmount: ptNusdTvl.toString() };
-          }
-
-          // Hold NUSD - circulating supply (outside Pendle) × price
-          if (updated["hold-nusd"]) {
-            updated["hold-nusd"] = { ...updated["hold-nusd"], tvlAmount: nusdData.holdTvl.toString() };
-          }
-        }
-
-        // sNUSD Market Data
-        if (tvlData.snusd) {
-          const snusdData = tvlData.snusd;
-
-          // YT sNUSD - 1 YT = 1 underlying token for points, use underlying price
-          const ytSnusdTvl = snusdData.ytTotalSupply * snusdData.underlyingPrice;
-          if (updated["yt-snusd-mar26"]) {
-            updated["yt-snusd-mar26"] = { ...updated["yt-snusd-mar26"], tvlAmount: ytSnusdTvl.toString() };
-          }
-
-          // Pendle Fee (5% of YT)
-          const feeSnusd = ytSnusdTvl * 0.05;
-          if (updated["pendle-fee-snusd"]) {
-            updated["pendle-fee-snusd"] = { ...updated["pendle-fee-snusd"], tvlAmount: feeSnusd.toString() };
-          }
-
-          // YT sNUSD NET (95% of YT)
-          const netSnusd = ytSnusdTvl * 0.95;
-          if (updated["yt-snusd-mar26-net"]) {
-            updated["yt-snusd-mar26-net"] = { ...updated["yt-snusd-mar26-net"], tvlAmount: netSnusd.toString() };
-          }
-
-          // LP sNUSD - Full SY TVL (display only)
-          if (updated["lp-snusd-mar26"]) {
-            updated["lp-snusd-mar26"] = { ...updated["lp-snusd-mar26"], tvlAmount: snusdData.lpSyTvl.toString() };
-          }
-
-          // LP Excluded (20% of SY) - display only, doesn't earn points
-          const lpExcludedSnusd = snusdData.lpSyTvl * 0.2;
-          if (updated["lp-excluded-snusd"]) {
-            updated["lp-excluded-snusd"] = { ...updated["lp-excluded-snusd"], tvlAmount: lpExcludedSnusd.toString() };
-          }
-
-          // LP NET (80% of SY) - THIS earns points
-          const lpNetSnusd = snusdData.lpSyTvl * 0.8;
-          if (updated["lp-snusd-mar26-net"]) {
-            updated["lp-snusd-mar26-net"] = { ...updated["lp-snusd-mar26-net"], tvlAmount: lpNetSnusd.toString() };
-          }
-
-          // PT sNUSD - use PT total supply × PT price for TVL (display only, excluded from points)
-          const ptSnusdTvl = snusdData.ptTotalSupply * snusdData.ptPrice;
-          if (updated["pt-snusd-mar26"]) {
-            updated["pt-snusd-mar26"] = { ...updated["pt-snusd-mar26"], tvlAmount: ptSnusdTvl.toString() };
-          }
-
-          // Hold sNUSD - circulating supply (outside Pendle) × price
-          if (updated["hold-snusd"]) {
-            updated["hold-snusd"] = { ...updated["hold-snusd"], tvlAmount: snusdData.holdTvl.toString() };
-          }
-        }
-
-        // upNUSD (K3 protocol)
-        if (tvlData.upnusd) {
-          if (updated["hold-upnusd"]) {
-            updated["hold-upnusd"] = { ...updated["hold-upnusd"], tvlAmount: tvlData.upnusd.tvl.toString() };
-          }
-        }
-
-        // Curve NUSD-USDC LP (unlocked portion only)
-        if (tvlData.curve) {
-          // Unlocked Curve LP TVL (total - locked)
-          if (updated["hold-curve-lp"]) {
-            updated["hold-curve-lp"] = { ...updated["hold-curve-lp"], tvlAmount: tvlData.curve.unlockedTvl.toString() };
-          }
-          // NUSD breakdown (display only)
-          if (updated["curve-nusd-breakdown"]) {
-            updated["curve-nusd-breakdown"] = { ...updated["curve-nusd-breakdown"], tvlAmount: tvlData.curve.nusdTvl.toString() };
-          }
-          // USDC breakdown (display only)
-          if (updated["curve-usdc-breakdown"]) {
-            updated["curve-usdc-breakdown"] = { ...updated["curve-usdc-breakdown"], tvlAmount: tvlData.curve.usdcTvl.toString() };
-          }
-        }
-
-        // Lock contract data
-        if (tvlData.locks) {
-          // NUSD locks by duration (3mo, 6mo, 9mo, 12mo)
-          if (updated["lock-nusd-3mo"]) {
-            updated["lock-nusd-3mo"] = { ...updated["lock-nusd-3mo"], tvlAmount: tvlData.locks.nusd.buckets["3mo"].tvl.toString() };
-          }
-          if (updated["lock-nusd-6mo"]) {
-            updated["lock-nusd-6mo"] = { ...updated["lock-nusd-6mo"], tvlAmount: tvlData.locks.nusd.buckets["6mo"].tvl.toString() };
-          }
-          if (updated["lock-nusd-9mo"]) {
-            updated["lock-nusd-9mo"] = { ...updated["lock-nusd-9mo"], tvlAmount: tvlData.locks.nusd.buckets["9mo"].tvl.toString() };
-          }
-          if (updated["lock-nusd-12mo"]) {
-            updated["lock-nusd-12mo"] = { ...updated["lock-nusd-12mo"], tvlAmount: tvlData.locks.nusd.buckets["12mo"].tvl.toString() };
-          }
-
-          // sNUSD locks by duration (3mo, 6mo, 9mo, 12mo)
-          if (updated["lock-snusd-3mo"]) {
-            updated["lock-snusd-3mo"] = { ...updated["lock-snusd-3mo"], tvlAmount: tvlData.locks.snusd.buckets["3mo"].tvl.toString() };
-          }
-          if (updated["lock-snusd-6mo"]) {
-            updated["lock-snusd-6mo"] = { ...updated["lock-snusd-6mo"], tvlAmount: tvlData.locks.snusd.buckets["6mo"].tvl.toString() };
-          }
-          if (updated["lock-snusd-9mo"]) {
-            updated["lock-snusd-9mo"] = { ...updated["lock-snusd-9mo"], tvlAmount: tvlData.locks.snusd.buckets["9mo"].tvl.toString() };
-          }
-          if (updated["lock-snusd-12mo"]) {
-            updated["lock-snusd-12mo"] = { ...updated["lock-snusd-12mo"], tvlAmount: tvlData.locks.snusd.buckets["12mo"].tvl.toString() };
-          }
-
-          // Curve LP locks by duration (3mo, 6mo max)
-          if (updated["lock-curve-3mo"]) {
-            updated["lock-curve-3mo"] = { ...updated["lock-curve-3mo"], tvlAmount: tvlData.locks.curveLp.buckets["3mo"].tvl.toString() };
-          }
-          if (updated["lock-curve-6mo"]) {
-            updated["lock-curve-6mo"] = { ...updated["lock-curve-6mo"], tvlAmount: tvlData.locks.curveLp.buckets["6mo"].tvl.toString() };
-          }
-        }
+        // Discovered market rows are not in the initial state, so create them on first write
+        const liveTvls = getLiveRowTvls(tvlData, scheduled.markets);
+        Object.entries(liveTvls).forEach(([rowId, value]) => {
+          updated[rowId] = { boost: updated[rowId]?.boost ?? 0, tvlAmount: value.toString() };
+        });
 
         return updated;
       });
     }
-  }, [tvlData]);
+  }, [tvlData, scheduled]);
 
   const handleTvlChange = (id: string, value: string) => {
     setRowData((prev) => ({
@@ -283,63 +103,37 @@ export default function TvlTable() {
   };
 
   // Check if a row has live data
-  const hasLiveData = (rowId: string): boolean => {
-    return rowId in LIVE_DATA_MAP;
-  };
-
-  // Calculate weighted TVL for a row
-  const getWeightedTvl = (row: TvlRow): number => {
-    const data = rowData[row.id];
-    const tvl = parseFloat(data?.tvlAmount) || 0;
-    const boost = row.boost || 0;
-    const baseBoost = row.baseBoost || 1;
-    if (row.status === "excluded") return 0;
-    return row.baseBoost ? tvl * baseBoost * boost : tvl * boost;
-  };
-
-  // Check if row should be counted in total (active and locked count, excluded and display don't)
-  const shouldCountInTotal = (row: TvlRow): boolean => {
-    return row.status === "active" || row.status === "locked";
-  };
-
-  // Get the effective multiplier for display
-  const getEffectiveMultiplier = (row: TvlRow): number => {
-    const boost = row.boost || 0;
-    const baseBoost = row.baseBoost || 1;
-    return row.baseBoost ? baseBoost * boost : boost;
+  const hasLiveData = (row: TvlRow): boolean => {
+    return !!row.market || LIVE_ROW_IDS.has(row.id);
   };
 
-  // Calculate total weighted TVL
-  const totalWeightedTvl = TVL_CATEGORIES.reduce((sum, cat) => {
-    return (
-      sum +
-      cat.rows.reduce((catSum, row) => {
-        if (row.type !== "total" && shouldCountInTotal(row)) {
-          return catSum + getWeightedTvl(row);
-        }
-        return catSum;
-      }, 0)
-    );
-  }, 0);
-
-  // Calculate total raw TVL
-  const totalRawTvl = TVL_CATEGORIES.reduce((sum, cat) => {
-    return (
-      sum +
-      cat.rows.reduce((catSum, row) => {
-        if (row.type !== "total" && shouldCountInTotal(row)) {
-          return catSum + (parseFloat(rowData[row.id]?.tvlAmount) || 0);
-        }
-        return catSum;
-      }, 0)
+  // Weighted TVL, shares and totals from the shared weighting engine (includes manual entries)
+  const weighting = useMemo(() => {
+    const tvls = Object.fromEntries(
+      Object.entries(rowData).map(([id, data]) => [id, parseFloat(data.tvlAmount) || 0])
     );
-  }, 0);
-
-  // Calculate share percentage
-  const getSharePercent = (row: TvlRow): number => {
-    if (totalWeightedTvl === 0) return 0;
-    return (getWeightedTvl(row) / totalWeightedTvl) * 100;
+    return weighRows(categories, tvls);
+  }, [categories, rowData]);
+  const totalWeightedTvl = weighting.summary.weightedTvl;
+  const totalRawTvl = weighting.summary.totalTvl;
+
+  // Estimated points use the calibrated points per weighted dollar (1:1 until calibrated)
+  const emission = inflationData?.emission ?? DEFAULT_EMISSION_MODEL;
+  const estPoints = {
+    daily: applyEmission(weighting.summary.estDailyPoints, emission),
+    weekly: applyEmission(weighting.summary.estWeeklyPoints, emission),
+    monthly: applyEmission(weighting.summary.estMonthlyPoints, emission),
   };
+  const getEmissionBand = (band: { low: number; high: number }) => (
+    <p className="text-xs text-white/50 dark:text-black/50 mt-1">
+      {emission.calibrated
+        ? `${formatNumber(band.low)}–${formatNumber(band.high)} · ${emission.pointsPerDollar.toFixed(3)} pts/$`
+        : "1 pt/$ (not yet calibrated)"}
+    </p>
+  );
+
+  const getWeightedTvl = (row: TvlRow): number => weighting.rows[row.id]?.weightedTvl ?? 0;
+  const getSharePercent = (row: TvlRow): number => weighting.rows[row.id]?.share ?? 0;
 
   // Get status badge
   const getStatusBadge = (status?: string) => {
@@ -350,6 +144,12 @@ export default function TvlTable() {
             Excluded
           </span>
         );
+      case "matured":
+        return (
+          <span className="px-1.5 py-0.5 text-[10px] font-bold bg-black/20 text-black/60 dark:bg-white/20 dark:text-white/60 uppercase">
+            Matured
+          </span>
+        );
       case "locked":
         return (
           <span className="px-1.5 py-0.5 text-[10px] font-bold bg-black text-white dark:bg-white dark:text-black uppercase">
@@ -361,15 +161,33 @@ export default function TvlTable() {
     }
   };
 
+  // Flag live rows built on fallback or missing inputs (see src/lib/provenance.ts)
+  const getProvenanceBadge = (row: TvlRow) => {
+    const provenance = tvlData?.provenance?.rows[row.id];
+    if (!provenance || provenance.status === "live") return null;
+    const isMissing = provenance.status === "missing";
+    return (
+      <span
+        title={`${isMissing ? "Missing" : "Fallback"} inputs: ${provenance.fields.join(", ")}`}
+        className={`px-1.5 py-0.5 text-[10px] font-bold uppercase border ${
+          isMissing ? "border-red-500 text-red-500" : "border-yellow-600 text-yellow-600 dark:border-yellow-400 dark:text-yellow-400"
+        }`}
+      >
+        {isMissing ? "Missing" : "Fallback"}
+      </span>
+    );
+  };
+
   const renderRow = (row: TvlRow, _catId: string, isLast: boolean) => {
     const data = rowData[row.id];
     const weightedTvl = getWeightedTvl(row);
     const sharePercent = getSharePercent(row);
-    const isExcluded = row.status === "excluded";
+    // Matured rows render like excluded ones: greyed out, $0 weighted
+    const isExcluded = row.status === "excluded" || row.status === "matured";
     const isDisplay = row.status === "display";
     const isSubrow = row.type === "subrow";
     const isTotal = row.type === "total";
-    const isLive = hasLiveData(row.id);
+    const isLive = hasLiveData(row);
 
     if (isTotal) return null;
 
@@ -392,6 +210,7 @@ export default function TvlTable() {
               {row.name}
             </span>
             {getStatusBadge(row.status)}
+            {isLive && getProvenanceBadge(row)}
           </div>
         </td>
         <td className="px-4 py-3 text-right">
@@ -429,7 +248,7 @@ export default function TvlTable() {
               {row.baseBoost ? (
                 <>
                   <span className="inline-flex items-center justify-center min-w-[40px] px-2 py-0.5 text-xs font-bold bg-black text-white dark:bg-white dark:text-black">
-                    {getEffectiveMultiplier(row)}x
+                    {getEffectiveBoost(row)}x
                   </span>
                   <span className="text-[10px] text-black/50 dark:text-white/50">
                     {row.baseBoost}x × {row.boost}x
@@ -448,6 +267,16 @@ export default function TvlTable() {
                   {row.boost}x
                 </span>
               )}
+              {row.boostSource && (
+                <span
+                  className="text-[10px] text-black/50 dark:text-white/50"
+                  title={row.boostStale
+                    ? `${row.boostSource} unavailable, last recorded value${row.boostChangedAt ? ` from ${new Date(row.boostChangedAt).toLocaleString()}` : ""}`
+                    : `Live boost from ${row.boostSource}${row.boostChangedAt ? `, unchanged since ${new Date(row.boostChangedAt).toLocaleString()}` : ""}`}
+                >
+                  {row.boostStale ? "Stale" : "Live"}{row.boostChangedAt && ` · since ${new Date(row.boostChangedAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`}
+                </span>
+              )}
             </div>
           ) : (
             <span className="text-black/40 dark:text-white/40">—</span>
@@ -494,6 +323,7 @@ export default function TvlTable() {
           {tvlData && (
             <span className="ml-2 text-black dark:text-white font-medium">
               • Updated {new Date(tvlData.timestamp).toLocaleTimeString()}
+              {tvlData.block && ` at block ${tvlData.block.number.toLocaleString()}`}
             </span>
           )}
         </p>
@@ -508,9 +338,21 @@ export default function TvlTable() {
               <div className="w-4 h-4 border-2 border-black/30 dark:border-white/30 border-t-black dark:border-t-white animate-spin" />
             </div>
           ) : (
-            <p className="text-2xl font-bold text-black dark:text-white">
-              {pointsData?.totalPointsFormatted || "—"}
-            </p>
+            <>
+              <p className="text-2xl font-bold text-black dark:text-white">
+                {pointsData?.totalPointsFormatted || "—"}
+              </p>
+              {pointsData?.chains?.plasma && (
+                <p className="text-xs text-black/50 dark:text-white/50 mt-1">
+                  Ethereum • Plasma {pointsData.chains.plasma.totalPointsFormatted} • All chains {pointsData.combined.totalPointsFormatted}
+                </p>
+              )}
+              {pointsData?.source === "snapshot" && (
+                <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+                  Last snapshot ({new Date(pointsData.timestamp).toLocaleString()}), points API unavailable
+                </p>
+              )}
+            </>
           )}
         </div>
         <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-4">
@@ -523,15 +365,18 @@ export default function TvlTable() {
         </div>
         <div className="bg-black dark:bg-white border-2 border-black dark:border-white p-4">
           <p className="text-xs text-white/50 dark:text-black/50 uppercase tracking-wide mb-1">Est. Daily Points</p>
-          <p className="text-2xl font-bold text-white dark:text-black">{formatNumber(totalWeightedTvl)}</p>
+          <p className="text-2xl font-bold text-white dark:text-black">{formatNumber(estPoints.daily.estimate)}</p>
+          {getEmissionBand(estPoints.daily)}
         </div>
         <div className="bg-black dark:bg-white border-2 border-black dark:border-white p-4">
           <p className="text-xs text-white/50 dark:text-black/50 uppercase tracking-wide mb-1">Est. Weekly Points</p>
-          <p className="text-2xl font-bold text-white dark:text-black">{formatNumber(totalWeightedTvl * 7)}</p>
+          <p className="text-2xl font-bold text-white dark:text-black">{formatNumber(estPoints.weekly.estimate)}</p>
+          {getEmissionBand(estPoints.weekly)}
         </div>
         <div className="bg-black dark:bg-white border-2 border-black dark:border-white p-4">
           <p className="text-xs text-white/50 dark:text-black/50 uppercase tracking-wide mb-1">Est. Monthly Points</p>
-          <p className="text-2xl font-bold text-white dark:text-black">{formatNumber(totalWeightedTvl * 30)}</p>
+          <p className="text-2xl font-bold text-white dark:text-black">{formatNumber(estPoints.monthly.estimate)}</p>
+          {getEmissionBand(estPoints.monthly)}
         </div>
       </div>
 
@@ -562,7 +407,7 @@ export default function TvlTable() {
               </tr>
             </thead>
             <tbody>
-              {TVL_CATEGORIES.map((category) => {
+              {categories.map((category) => {
                 const categoryRows = category.rows.filter(r => r.type !== "total");
                 return (
                   <React.Fragment key={category.id}>
@@ -599,6 +444,38 @@ export default function TvlTable() {
           </table>
         </div>
       </div>
+
+      {/* Scheduled Boost Changes */}
+      {upcomingBoostChanges.length > 0 && (
+        <div className="bg-white dark:bg-black border-2 border-black dark:border-white">
+          <div className="px-4 py-3 border-b-2 border-black dark:border-white">
+            <h3 className="font-bold text-black dark:text-white uppercase tracking-wide">Scheduled Boost Changes</h3>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              {upcomingBoostChanges.map((change) => {
+                const isFee = change.target === "pendleFee" || change.target === "lpExcluded";
+                const formatValue = (value: number | null) =>
+                  value === null ? "—" : isFee ? `${Math.round(value * 100)}%` : `${value}x`;
+                return (
+                  <tr key={`${change.target}-${change.effectiveFrom}`} className="border-b border-black/10 dark:border-white/10 last:border-b-0">
+                    <td className="px-4 py-2 text-black dark:text-white">
+                      {change.name}
+                      {change.note && <span className="ml-2 text-xs text-black/50 dark:text-white/50">{change.note}</span>}
+                    </td>
+                    <td className="px-4 py-2 text-center font-bold text-black dark:text-white">
+                      {formatValue(change.current)} → {formatValue(change.value)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-black/60 dark:text-white/60">
+                      {new Date(change.effectiveFrom).toLocaleString()}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 }
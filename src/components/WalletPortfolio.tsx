@@ -0,0 +1,171 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { getScheduledTvlCategories } from "@/lib/boostSchedule";
+import { PENDLE_MARKETS } from "@/lib/markets";
+import { getTrackedMarkets } from "@/lib/marketDiscovery";
+import { buildPortfolioSummary } from "@/lib/portfolio";
+import { applyLiveBoosts } from "@/lib/weighting";
+import { formatNumber } from "@/lib/calculations";
+import { useTvlData } from "@/hooks/useTvlData";
+import { useDiscoveredMarkets } from "@/hooks/useDiscoveredMarkets";
+import { usePortfolio } from "@/hooks/usePortfolio";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export default function WalletPortfolio() {
+  const [address, setAddress] = useState("");
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const { data: tvlData, loading: tvlLoading } = useTvlData();
+  const { data: discoveredMarkets } = useDiscoveredMarkets();
+  const { data: portfolio, loading, error, fetchPortfolio } = usePortfolio();
+
+  // Same markets and categories as the TVL table: the boost schedule in effect now, plus live boosts
+  const scheduled = useMemo(
+    () => getScheduledTvlCategories([...PENDLE_MARKETS, ...getTrackedMarkets(discoveredMarkets)]),
+    [discoveredMarkets]
+  );
+  const markets = scheduled.markets;
+  const categories = useMemo(
+    () => applyLiveBoosts(scheduled.categories, tvlData?.liveBoosts),
+    [scheduled, tvlData?.liveBoosts]
+  );
+
+  const summary = useMemo(
+    () => (portfolio && tvlData ? buildPortfolioSummary(portfolio, tvlData, markets, categories) : null),
+    [portfolio, tvlData, markets, categories]
+  );
+
+  const handleLookup = () => {
+    const trimmed = address.trim();
+    if (!ADDRESS_PATTERN.test(trimmed)) {
+      setInputError("Please enter a valid Ethereum address");
+      return;
+    }
+    setInputError(null);
+    fetchPortfolio(trimmed);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Section Header */}
+      <div>
+        <h2 className="text-xl font-bold text-black dark:text-white uppercase tracking-wide">Wallet Portfolio</h2>
+        <p className="text-sm text-black/60 dark:text-white/60">
+          Paste an address to see its Neutrl holdings, boosts and share of daily points
+        </p>
+      </div>
+
+      {/* Address Input */}
+      <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-6">
+        <label className="block text-sm font-bold uppercase text-black dark:text-white mb-3">
+          Wallet Address
+        </label>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleLookup();
+            }}
+            placeholder="0x..."
+            className="flex-1 px-4 py-3 text-sm font-mono border-2 border-black dark:border-white focus:outline-none focus:ring-0 bg-white dark:bg-black text-black dark:text-white"
+          />
+          <button
+            onClick={handleLookup}
+            disabled={loading}
+            className="px-6 py-3 bg-black dark:bg-white text-white dark:text-black font-bold uppercase border-2 border-black dark:border-white hover:bg-black/80 dark:hover:bg-white/80 disabled:opacity-50 disabled:cursor-not-allowed min-w-[120px]"
+          >
+            {loading ? (
+              <div className="w-5 h-5 border-2 border-current border-t-transparent animate-spin mx-auto" />
+            ) : (
+              "LOOKUP"
+            )}
+          </button>
+        </div>
+        {(inputError || error) && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400">{inputError || error}</p>
+        )}
+        {portfolio && !tvlData && tvlLoading && (
+          <p className="mt-2 text-sm text-black/50 dark:text-white/50">Waiting for TVL data to price holdings...</p>
+        )}
+      </div>
+
+      {summary && (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-4">
+              <p className="text-xs text-black/50 dark:text-white/50 uppercase tracking-wide mb-1">Earning TVL</p>
+              <p className="text-2xl font-bold text-black dark:text-white">${formatNumber(summary.totalTvl)}</p>
+            </div>
+            <div className="bg-white dark:bg-black border-2 border-black dark:border-white p-4">
+              <p className="text-xs text-black/50 dark:text-white/50 uppercase tracking-wide mb-1">Weighted TVL</p>
+              <p className="text-2xl font-bold text-black dark:text-white">${formatNumber(summary.totalWeightedTvl)}</p>
+            </div>
+            <div className="bg-black dark:bg-white border-2 border-black dark:border-white p-4">
+              <p className="text-xs text-white/50 dark:text-black/50 uppercase tracking-wide mb-1">Est. Daily Points</p>
+              <p className="text-2xl font-bold text-white dark:text-black">{formatNumber(summary.totalWeightedTvl)}</p>
+            </div>
+            <div className="bg-black dark:bg-white border-2 border-black dark:border-white p-4">
+              <p className="text-xs text-white/50 dark:text-black/50 uppercase tracking-wide mb-1">Share of Points</p>
+              <p className="text-2xl font-bold text-white dark:text-black">{summary.share.toFixed(4)}%</p>
+            </div>
+          </div>
+
+          {/* Holdings Table */}
+          <div className="bg-white dark:bg-black border-2 border-black dark:border-white overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-black dark:bg-white text-white dark:text-black">
+                    <th className="text-left px-4 py-3 font-bold text-xs uppercase tracking-wider">Position</th>
+                    <th className="text-right px-4 py-3 font-bold text-xs uppercase tracking-wider">Amount ($)</th>
+                    <th className="text-center px-4 py-3 font-bold text-xs uppercase tracking-wider">Boost</th>
+                    <th className="text-right px-4 py-3 font-bold text-xs uppercase tracking-wider">Daily Points</th>
+                    <th className="text-right px-4 py-3 font-bold text-xs uppercase tracking-wider">Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-6 text-center text-black/50 dark:text-white/50 uppercase">
+                        No Neutrl positions found for this address
+                      </td>
+                    </tr>
+                  ) : (
+                    summary.rows.map(({ row, category, tvl, dailyPoints, share, counted }) => (
+                      <tr
+                        key={row.id}
+                        className={`border-b border-black dark:border-white last:border-b-0 ${counted ? "" : "opacity-60"}`}
+                      >
+                        <td className="px-4 py-3">
+                          <span className="text-sm font-medium text-black dark:text-white">{row.name}</span>
+                          <span className="block text-xs text-black/50 dark:text-white/50 uppercase">{category}</span>
+                        </td>
+                        <td className="px-4 py-3 text-right font-bold text-black dark:text-white">
+                          ${formatNumber(tvl)}
+                        </td>
+                        <td className="px-4 py-3 text-center text-black dark:text-white">
+                          {row.baseBoost ? `${row.baseBoost}x × ${row.boost}x` : row.boost ? `${row.boost}x` : "—"}
+                        </td>
+                        <td className="px-4 py-3 text-right font-bold text-black dark:text-white">
+                          {counted ? formatNumber(dailyPoints) : "—"}
+                        </td>
+                        <td className="px-4 py-3 text-right text-black dark:text-white">
+                          {counted ? `${share.toFixed(4)}%` : "(info)"}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { DiscoveredMarket } from "@/lib/marketDiscovery";
+
+const DISCOVERED_CACHE_KEY = "discovered_markets_cache";
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+interface CachedData<T> {
+  data: T;
+  timestamp: number;
+}
+
+function getCachedData(): DiscoveredMarket[] | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const cached = localStorage.getItem(DISCOVERED_CACHE_KEY);
+    if (!cached) return null;
+
+    const { data, timestamp }: CachedData<DiscoveredMarket[]> = JSON.parse(cached);
+    const isExpired = Date.now() - timestamp > CACHE_TTL_MS;
+
+    if (isExpired) {
+      localStorage.removeItem(DISCOVERED_CACHE_KEY);
+      return null;
+    }
+
+    return data;
+  } catch {
+    localStorage.removeItem(DISCOVERED_CACHE_KEY);
+    return null;
+  }
+}
+
+function setCachedData(data: DiscoveredMarket[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    const cacheEntry: CachedData<DiscoveredMarket[]> = {
+      data,
+      timestamp: Date.now(),
+    };
+    localStorage.setItem(DISCOVERED_CACHE_KEY, JSON.stringify(cacheEntry));
+  } catch {
+    // localStorage might be full or disabled
+  }
+}
+
+export function useDiscoveredMarkets() {
+  const [data, setData] = useState<DiscoveredMarket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async (skipCache = false) => {
+    if (!skipCache) {
+      const cached = getCachedData();
+      if (cached) {
+        setData(cached);
+        setLoading(false);
+        return;
+      }
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/markets/discover");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch discovered markets");
+      }
+
+      const result = await response.json();
+      setData(result.markets || []);
+      setCachedData(result.markets || []);
+    } catch (err) {
+      console.error("Error fetching discovered markets:", err);
+      setError("Failed to load discovered markets");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, loading, error, refetch: () => fetchData(true) };
+}
@@ -1,12 +1,60 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import type { EmissionModel } from "@/lib/emission";
 
 const INFLATION_CACHE_KEY = "inflation_data_cache";
 const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
 
+// Analysis window for /api/inflation, counted back from the latest snapshot
+export type InflationWindow = "7d" | "14d" | "30d" | "all";
+
+// Point supply for /api/inflation: Ethereum's season program or every chain's (Ethereum + Plasma)
+export type PointSupply = "ethereum" | "combined";
+
+export interface InflationFit {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+export interface InflationAnalysis {
+  rollingDays: number;
+  dailySeries: Array<{
+    date: string;
+    issuance: number;
+    issuanceFormatted: string;
+    rollingAverage: number;
+    rollingAverageFormatted: string;
+    weightedTvl: number;
+    estDailyPoints: number;
+  }>;
+  fits: {
+    points: InflationFit | null;
+    pointsGrowth: InflationFit | null;
+    totalTvl: InflationFit | null;
+    weightedTvl: InflationFit | null;
+  };
+  residuals: Array<{
+    capturedAt: string;
+    actual: number;
+    fitted: number;
+    residual: number;
+  }>;
+  volatility: {
+    issuanceStdDev: number;
+    issuanceStdDevFormatted: string;
+    issuanceCv: number | null;
+    weightedTvlDailyVolatility: number;
+    residualStdDev: number;
+    residualStdDevFormatted: string;
+  };
+}
+
 export interface InflationData {
   timestamp: string;
+  window: InflationWindow;
+  supply: PointSupply;
   dataRange: {
     from: string;
     to: string;
@@ -14,6 +62,10 @@ export interface InflationData {
     toDate: string;
     totalDays: number;
     snapshotCount: number;
+    backfilledCount: number;
+    withoutSupplyCount: number; // Live snapshots with no total for the selected supply
+    quarantinedCount: number;  // Failed data-quality checks
+    includeQuarantined: boolean;
   };
   currentState: {
     s1RewardsIssued: number;
@@ -35,6 +87,8 @@ export interface InflationData {
     avgEstDailyPointsFormatted: string;
     efficiencyRate: number;
   };
+  // Calibrated points per weighted dollar per day
+  emission: EmissionModel;
   projections: {
     dailyInflation: number;
     dailyInflationFormatted: string;
@@ -63,6 +117,7 @@ export interface InflationData {
     pointsDailyGrowthRate: number;
     pointsWeeklyGrowthRate: number;
   };
+  analysis: InflationAnalysis;
 }
 
 interface CachedData<T> {
@@ -70,41 +125,44 @@ interface CachedData<T> {
   timestamp: number;
 }
 
-function getCachedData(): InflationData | null {
+const getCacheKey = (analysisWindow: InflationWindow, supply: PointSupply) =>
+  `${INFLATION_CACHE_KEY}_${analysisWindow}_${supply}`;
+
+function getCachedData(analysisWindow: InflationWindow, supply: PointSupply): InflationData | null {
   if (typeof window === "undefined") return null;
   try {
-    const cached = localStorage.getItem(INFLATION_CACHE_KEY);
+    const cached = localStorage.getItem(getCacheKey(analysisWindow, supply));
     if (!cached) return null;
 
     const { data, timestamp }: CachedData<InflationData> = JSON.parse(cached);
     const isExpired = Date.now() - timestamp > CACHE_TTL_MS;
 
     if (isExpired) {
-      localStorage.removeItem(INFLATION_CACHE_KEY);
+      localStorage.removeItem(getCacheKey(analysisWindow, supply));
       return null;
     }
 
     return data;
   } catch {
-    localStorage.removeItem(INFLATION_CACHE_KEY);
+    localStorage.removeItem(getCacheKey(analysisWindow, supply));
     return null;
   }
 }
 
-function setCachedData(data: InflationData): void {
+function setCachedData(analysisWindow: InflationWindow, supply: PointSupply, data: InflationData): void {
   if (typeof window === "undefined") return;
   try {
     const cacheEntry: CachedData<InflationData> = {
       data,
       timestamp: Date.now(),
     };
-    localStorage.setItem(INFLATION_CACHE_KEY, JSON.stringify(cacheEntry));
+    localStorage.setItem(getCacheKey(analysisWindow, supply), JSON.stringify(cacheEntry));
   } catch {
     // localStorage might be full or disabled
   }
 }
 
-export function useInflationData() {
+export function useInflationData(analysisWindow: InflationWindow = "all", supply: PointSupply = "ethereum") {
   const [data, setData] = useState<InflationData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -113,7 +171,7 @@ export function useInflationData() {
   const fetchData = useCallback(async (skipCache = false) => {
     // Check cache first (unless skipCache is true)
     if (!skipCache) {
-      const cached = getCachedData();
+      const cached = getCachedData(analysisWindow, supply);
       if (cached) {
         setData(cached);
         setIsCached(true);
@@ -127,7 +185,7 @@ export function useInflationData() {
     setIsCached(false);
 
     try {
-      const response = await fetch("/api/inflation");
+      const response = await fetch(`/api/inflation?window=${analysisWindow}&supply=${supply}`);
 
       if (!response.ok) {
         throw new Error("Failed to fetch inflation data");
@@ -135,14 +193,14 @@ export function useInflationData() {
 
       const result = await response.json();
       setData(result);
-      setCachedData(result);
+      setCachedData(analysisWindow, supply, result);
     } catch (err) {
       console.error("Error fetching inflation data:", err);
       setError("Failed to load inflation data");
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [analysisWindow, supply]);
 
   useEffect(() => {
     fetchData();
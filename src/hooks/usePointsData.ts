@@ -5,11 +5,23 @@ import { useState, useEffect, useCallback } from "react";
 const POINTS_CACHE_KEY = "points_data_cache";
 const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
 
-interface PointsData {
-  timestamp: string;
+interface ChainPoints {
   totalPoints: number;
   totalPointsFormatted: string;
   participantCount: number;
+  upNusdMultiplier: number | null;
+}
+
+// Top-level totals are Ethereum's season program; chains has each program, combined their sum
+interface PointsData extends ChainPoints {
+  timestamp: string;
+  chains: { ethereum: ChainPoints; plasma?: ChainPoints };
+  combined: {
+    totalPoints: number;
+    totalPointsFormatted: string;
+    participantCount: number;
+  };
+  source: "http" | "puppeteer" | "snapshot"; // "snapshot" = last recorded totals, points API unreachable
   isCached: boolean;
 }
 
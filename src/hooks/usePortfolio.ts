@@ -0,0 +1,51 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { LockData } from "@/lib/locks";
+
+// Raw token amounts held by one wallet, as returned by /api/portfolio
+export interface PortfolioApiResponse {
+  timestamp: string;
+  address: string;
+  balances: {
+    nusd: number;
+    snusd: number;
+    upnusd: number;
+    curveLp: number;
+  };
+  // YT / PT / LP balances keyed by market registry key
+  markets: Record<string, { yt: number; pt: number; lp: number }>;
+  // Active locks for this wallet, bucketed like the protocol-wide lock data
+  locks: LockData | null;
+}
+
+// Fetched on demand (per address) rather than on mount, so there is no localStorage cache
+export function usePortfolio() {
+  const [data, setData] = useState<PortfolioApiResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPortfolio = useCallback(async (address: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/portfolio?address=${encodeURIComponent(address)}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || "Failed to fetch portfolio");
+      }
+
+      const result = await response.json();
+      setData(result);
+    } catch (err) {
+      console.error("Error fetching portfolio:", err);
+      setData(null);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { data, loading, error, fetchPortfolio };
+}
@@ -1,6 +1,9 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import type { UnderlyingKey } from "@/lib/markets";
+import type { LiveBoost, WeightedCategory, WeightingSummary } from "@/lib/weighting";
+import type { TvlProvenance } from "@/lib/provenance";
 
 const TVL_CACHE_KEY = "tvl_data_cache";
 const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
@@ -25,6 +28,34 @@ export interface LpTokenData {
   lpPrice: number;
 }
 
+// Per-market Pendle data, keyed by market registry key
+export interface PendleMarketTvl {
+  key: string;
+  underlying: UnderlyingKey;
+  expiry: string;
+  market: string;
+  pendingApproval: boolean; // Discovered market awaiting approval - not counted in weighted TVL
+  matured: boolean;         // Past expiry - YT/LP rows no longer counted
+  // Token supplies
+  ytTotalSupply: number;
+  ptTotalSupply: number;
+  lpTotalSupply: number;
+  // SY underlying balance (shared by markets that use the same SY)
+  syUnderlyingBalance: number;
+  // Prices
+  underlyingPrice: number;
+  ytPrice: number;
+  ptPrice: number;
+  lpPrice: number;
+  // TVL calculations
+  syTvl: number;
+  lpTvl: number;
+  lpSyTvl: number; // Only SY portion of LP earns points
+  // APY data
+  impliedApy: number;
+  underlyingApy: number;
+}
+
 export interface MarketData {
   market: string;
   // Token supplies
@@ -64,6 +95,8 @@ export interface CurveData {
   nusdTvl: number;
   usdcTvl: number;
   totalTvl: number;
+  lpTotalSupply: number;
+  lpPrice: number;
   unlockedTvl: number;
 }
 
@@ -73,9 +106,16 @@ export interface LockBucketData {
   tvl: number;
 }
 
+export interface RecentlyUnlockedData {
+  count: number;
+  amount: number;
+  tvl: number;
+}
+
 export interface AssetLockData {
   totalLocked: number;
   totalLockedTvl: number;
+  recentlyUnlocked: RecentlyUnlockedData;
   buckets: {
     "3mo": LockBucketData;
     "6mo": LockBucketData;
@@ -87,6 +127,7 @@ export interface AssetLockData {
 export interface CurveLpLockData {
   totalLocked: number;
   totalLockedTvl: number;
+  recentlyUnlocked: RecentlyUnlockedData;
   lpPrice: number;
   buckets: {
     "3mo": LockBucketData;
@@ -95,14 +136,24 @@ export interface CurveLpLockData {
 }
 
 export interface LocksData {
+  recentlyUnlockedDays: number;
   nusd: AssetLockData;
   snusd: AssetLockData;
   curveLp: CurveLpLockData;
 }
 
+// Block every on-chain read of the response was pinned to
+export interface BlockData {
+  number: number;
+  timestamp: number; // Unix seconds
+}
+
 export interface TvlApiResponse {
   timestamp: string;
-  // New comprehensive format
+  block: BlockData;
+  // Pendle markets from the registry
+  markets: Record<string, PendleMarketTvl>;
+  // Underlying asset data (hold TVL + first registered market of each asset)
   nusd: MarketData;
   snusd: MarketData;
   // Legacy format for backward compatibility
@@ -120,6 +171,15 @@ export interface TvlApiResponse {
   curve: CurveData;
   // Lock contract data
   locks: LocksData | null;
+  // Rows and totals from the weighting engine, as stored in snapshots
+  weighting: {
+    summary: WeightingSummary;
+    categories: WeightedCategory[];
+  };
+  // Boosts read from live data by row id (recorded ones at a past block), applied in place of the configured ones
+  liveBoosts: Record<string, LiveBoost>;
+  // Live / fallback / missing status of every field, and of each table row built from them
+  provenance: TvlProvenance;
 }
 
 function getCachedData(): TvlApiResponse | null {
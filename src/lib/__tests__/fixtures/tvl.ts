@@ -0,0 +1,120 @@
+// A /api/tvl payload and registry for the weighting tests: one live market, one matured
+// market and round TVL numbers, so every expected figure can be worked out by hand.
+
+import type { PendleMarketConfig } from "../../markets";
+import type { TvlPayload } from "../../weighting";
+import type { LockBucketData, MarketData, PendleMarketTvl } from "../../../hooks/useTvlData";
+
+// Fixed "now" the categories are built at (ms)
+export const NOW = Date.parse("2026-06-01T00:00:00.000Z");
+
+export const LIVE_MARKET: PendleMarketConfig = {
+  key: "nusd-dec26",
+  underlying: "nusd",
+  label: "Dec 31",
+  expiry: "2026-12-31T00:00:00.000Z",
+  market: "0x0000000000000000000000000000000000000001",
+  sy: "0x0000000000000000000000000000000000000002",
+  pt: "0x0000000000000000000000000000000000000003",
+  yt: "0x0000000000000000000000000000000000000004",
+  pointsMultiplier: 50,
+  feeSplit: { pendleFee: 0.05, lpExcluded: 0.2 },
+};
+
+export const MATURED_MARKET: PendleMarketConfig = {
+  key: "snusd-mar26",
+  underlying: "snusd",
+  label: "Mar 5",
+  expiry: "2026-03-05T00:00:00.000Z",
+  market: "0x0000000000000000000000000000000000000011",
+  sy: "0x0000000000000000000000000000000000000012",
+  pt: "0x0000000000000000000000000000000000000013",
+  yt: "0x0000000000000000000000000000000000000014",
+  pointsMultiplier: 25,
+  feeSplit: { pendleFee: 0.05, lpExcluded: 0.2 },
+};
+
+export const MARKETS = [LIVE_MARKET, MATURED_MARKET];
+
+function marketTvl(
+  market: PendleMarketConfig,
+  values: Pick<PendleMarketTvl, "ytTotalSupply" | "ptTotalSupply" | "underlyingPrice" | "ptPrice" | "lpSyTvl">,
+  matured: boolean
+): PendleMarketTvl {
+  return {
+    key: market.key,
+    underlying: market.underlying,
+    expiry: market.expiry,
+    market: market.market,
+    pendingApproval: false,
+    matured,
+    lpTotalSupply: 0,
+    syUnderlyingBalance: 0,
+    ytPrice: 0,
+    lpPrice: 0,
+    syTvl: 0,
+    lpTvl: 0,
+    impliedApy: 0,
+    underlyingApy: 0,
+    ...values,
+  };
+}
+
+function holdData(holdTvl: number): MarketData {
+  return {
+    market: "",
+    ytTotalSupply: 0,
+    ptTotalSupply: 0,
+    lpTotalSupply: 0,
+    syUnderlyingBalance: 0,
+    totalSupply: 0,
+    circulatingSupply: 0,
+    underlyingPrice: 1,
+    ytPrice: 0,
+    ptPrice: 0,
+    lpPrice: 0,
+    syTvl: 0,
+    lpTvl: 0,
+    lpSyTvl: 0,
+    holdTvl,
+    impliedApy: 0,
+    underlyingApy: 0,
+  };
+}
+
+const bucket = (tvl: number): LockBucketData => ({ count: tvl > 0 ? 1 : 0, amount: tvl, tvl });
+const noUnlocks = { count: 0, amount: 0, tvl: 0 };
+
+export const TVL_PAYLOAD: TvlPayload = {
+  markets: {
+    // YT $1,000,000 (1M YT at $1), LP SY portion $500,000, PT $200,000
+    [LIVE_MARKET.key]: marketTvl(LIVE_MARKET, {
+      ytTotalSupply: 1_000_000, underlyingPrice: 1, ptTotalSupply: 250_000, ptPrice: 0.8, lpSyTvl: 500_000,
+    }, false),
+    [MATURED_MARKET.key]: marketTvl(MATURED_MARKET, {
+      ytTotalSupply: 400_000, underlyingPrice: 1, ptTotalSupply: 100_000, ptPrice: 1, lpSyTvl: 100_000,
+    }, true),
+  },
+  nusd: holdData(2_000_000),
+  snusd: holdData(1_000_000),
+  upnusd: { contract: "", totalSupply: 100_000, tvl: 100_000 },
+  curve: {
+    pool: "", nusdBalance: 0, usdcBalance: 0, nusdTvl: 150_000, usdcTvl: 150_000,
+    totalTvl: 300_000, lpTotalSupply: 0, lpPrice: 1, unlockedTvl: 200_000,
+  },
+  locks: {
+    recentlyUnlockedDays: 7,
+    nusd: {
+      totalLocked: 300_000, totalLockedTvl: 300_000, recentlyUnlocked: noUnlocks,
+      buckets: { "3mo": bucket(100_000), "6mo": bucket(0), "9mo": bucket(0), "12mo": bucket(200_000) },
+    },
+    snusd: {
+      totalLocked: 0, totalLockedTvl: 0, recentlyUnlocked: noUnlocks,
+      buckets: { "3mo": bucket(0), "6mo": bucket(0), "9mo": bucket(0), "12mo": bucket(0) },
+    },
+    curveLp: {
+      totalLocked: 100_000, totalLockedTvl: 100_000, recentlyUnlocked: noUnlocks, lpPrice: 1,
+      buckets: { "3mo": bucket(0), "6mo": bucket(100_000) },
+    },
+  },
+};
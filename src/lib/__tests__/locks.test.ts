@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { bucketLocks } from "../locks";
+import { UNDERLYINGS } from "../markets";
+import type { LockEventRecord } from "../supabase";
+
+const DAY = 86400;
+const NOW = 1_790_000_000;
+const USER = "0x00000000000000000000000000000000000000aa";
+const NUSD = UNDERLYINGS.nusd.address.toLowerCase();
+
+let logIndex = 0;
+const event = (
+  eventType: LockEventRecord["event_type"],
+  time: number,
+  amount: number,
+  unlockTime: number | null = null,
+): LockEventRecord => ({
+  tx_hash: `0x${(++logIndex).toString(16).padStart(64, "0")}`,
+  log_index: logIndex,
+  block_number: logIndex,
+  block_timestamp: time,
+  event_type: eventType,
+  user_address: USER,
+  asset: NUSD,
+  amount,
+  unlock_time: unlockTime,
+  duration_days: null,
+  bucket: null,
+});
+
+describe("bucketLocks", () => {
+  it("buckets each lock of a wallet by its own duration", () => {
+    const start = NOW - 10 * DAY;
+    const { nusd } = bucketLocks([
+      event("locked", start, 100, start + 100 * DAY),
+      event("locked", start + DAY, 50, start + DAY + 400 * DAY),
+    ], NOW);
+
+    expect(nusd.totalLocked).toBe(150);
+    expect(nusd.buckets["3mo"]).toEqual({ count: 1, amount: 100 });
+    expect(nusd.buckets["12mo"]).toEqual({ count: 1, amount: 50 });
+  });
+
+  it("expires an earlier lock on its own unlock time", () => {
+    const start = NOW - 120 * DAY;
+    const { nusd } = bucketLocks([
+      event("locked", start, 100, start + 100 * DAY),
+      event("locked", start + DAY, 50, start + DAY + 400 * DAY),
+    ], NOW);
+
+    expect(nusd.totalLocked).toBe(50);
+    expect(nusd.buckets["3mo"]).toEqual({ count: 0, amount: 0 });
+    expect(nusd.buckets["12mo"]).toEqual({ count: 1, amount: 50 });
+  });
+
+  it("takes early withdrawals from running locks, earliest unlock first", () => {
+    const start = NOW - 10 * DAY;
+    const { nusd } = bucketLocks([
+      event("locked", start, 100, start + 100 * DAY),
+      event("locked", start, 50, start + 400 * DAY),
+      event("early_withdrawal", NOW - DAY, 100),
+    ], NOW);
+
+    expect(nusd.totalLocked).toBe(50);
+    expect(nusd.buckets["12mo"]).toEqual({ count: 1, amount: 50 });
+    expect(nusd.recentlyUnlocked).toEqual({ count: 1, amount: 100 });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { AirdropDistributions, SimulatedPosition, runAirdropSimulation } from "../monteCarlo";
+
+// 1,000 points a day for 100 days out of a 1B season: worth $1,000 at a $10M airdrop
+// ($100M FDV, 10%), exactly the cost, so the median trial breaks even
+const POSITION: SimulatedPosition = {
+  costUsd: 1_000,
+  dailyPoints: 1_000,
+  daysToExpiry: 100,
+  yieldValue: 0,
+  currentPoints: 1_000_000_000,
+};
+
+const FIXED: AirdropDistributions = {
+  fdvMedian: 100_000_000,
+  fdvSigma: 0,
+  airdropPercentMin: 10,
+  airdropPercentMax: 10,
+  tgeDaysMin: 100,
+  tgeDaysMax: 100,
+  growthMean: 0,
+  growthSd: 0,
+};
+
+describe("runAirdropSimulation", () => {
+  it("gives every trial the same ROI when nothing is random", () => {
+    const summary = runAirdropSimulation(POSITION, { ...FIXED, fdvMedian: 200_000_000 }, 100);
+    expect(summary.trials).toBe(100);
+    expect(summary.discarded).toBe(0);
+    expect(summary.probabilityOfProfit).toBe(1);
+    expect(summary.meanRoi).toBeCloseTo(1);
+    Object.values(summary.percentiles).forEach((roi) => expect(roi).toBeCloseTo(1));
+  });
+
+  it("is repeatable for a seed", () => {
+    const dist = { ...FIXED, fdvSigma: 0.8, growthSd: 0.2 };
+    expect(runAirdropSimulation(POSITION, dist, 2_000, 7)).toEqual(runAirdropSimulation(POSITION, dist, 2_000, 7));
+    expect(runAirdropSimulation(POSITION, dist, 2_000, 7)).not.toEqual(runAirdropSimulation(POSITION, dist, 2_000, 8));
+  });
+
+  it("matches the log-normal FDV percentiles and P(profit)", () => {
+    // ROI = FDV / median - 1, so percentiles follow exp(σ·z) - 1
+    const sigma = 0.5;
+    const summary = runAirdropSimulation(POSITION, { ...FIXED, fdvSigma: sigma }, 20_000, 42);
+    expect(summary.probabilityOfProfit).toBeCloseTo(0.5, 1);
+    expect(summary.percentiles.p50).toBeCloseTo(0, 1);
+    expect(summary.percentiles.p5).toBeCloseTo(Math.exp(sigma * -1.6449) - 1, 1);
+    expect(summary.percentiles.p95).toBeCloseTo(Math.exp(sigma * 1.6449) - 1, 1);
+    expect(summary.percentiles.p5).toBeLessThan(summary.percentiles.p25);
+    expect(summary.percentiles.p75).toBeLessThan(summary.percentiles.p95);
+  });
+
+  it("only counts points until TGE when it comes before expiry", () => {
+    const summary = runAirdropSimulation(POSITION, { ...FIXED, tgeDaysMin: 50, tgeDaysMax: 50 }, 10);
+    expect(summary.meanRoi).toBeCloseTo(-0.5);
+    expect(summary.probabilityOfProfit).toBe(0);
+  });
+
+  it("floors growth above -100% so the season total stays positive", () => {
+    const summary = runAirdropSimulation(POSITION, { ...FIXED, growthMean: -150, growthSd: 50 }, 1_000);
+    expect(summary.trials).toBe(1_000);
+    expect(summary.discarded).toBe(0);
+    expect(Number.isFinite(summary.meanRoi)).toBe(true);
+  });
+
+  it("drops trials with a non-finite ROI", () => {
+    const summary = runAirdropSimulation(POSITION, { ...FIXED, fdvMedian: Infinity }, 50);
+    expect(summary.trials).toBe(0);
+    expect(summary.discarded).toBe(50);
+    expect(summary.histogram).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { HOLD_CATEGORY, TvlCategory, TvlRow, buildMarketCategory, getMarketRowIds } from "../tvlData";
+import { applyLiveBoosts, getEffectiveBoost, weighRows, weighTvlData } from "../weighting";
+import { getMarket } from "../markets";
+import { LIVE_MARKET, MARKETS, MATURED_MARKET, NOW, TVL_PAYLOAD } from "./fixtures/tvl";
+
+const CATEGORIES: TvlCategory[] = [...MARKETS.map((market) => buildMarketCategory(market, NOW)), HOLD_CATEGORY];
+
+describe("getEffectiveBoost", () => {
+  it("uses the boost of a plain row", () => {
+    expect(getEffectiveBoost({ id: "a", name: "A", type: "row", boost: 18 })).toBe(18);
+  });
+
+  it("multiplies a lock subrow's boost by its base boost", () => {
+    const lock = HOLD_CATEGORY.rows.find((row) => row.id === "lock-nusd-12mo") as TvlRow;
+    expect(getEffectiveBoost(lock)).toBe(5 * 30);
+  });
+
+  it("treats a missing boost as zero", () => {
+    expect(getEffectiveBoost({ id: "pt", name: "PT", type: "row", status: "excluded" })).toBe(0);
+  });
+});
+
+describe("getMarketRowIds", () => {
+  it("keeps the ids stored snapshots use for the first markets", () => {
+    const market = getMarket("nusd-feb26")!;
+    expect(getMarketRowIds(market)).toMatchObject({ category: "feb-2026", fee: "pendle-fee-nusd", lpExcluded: "lp-excluded-nusd" });
+    expect(buildMarketCategory(market).id).toBe("feb-2026");
+  });
+
+  it("derives the ids of other markets from their key", () => {
+    expect(getMarketRowIds(LIVE_MARKET)).toMatchObject({ category: LIVE_MARKET.key, fee: `pendle-fee-${LIVE_MARKET.key}` });
+  });
+});
+
+describe("weighTvlData", () => {
+  const { rows, summary } = weighTvlData(TVL_PAYLOAD, CATEGORIES, MARKETS);
+  const key = LIVE_MARKET.key;
+
+  it("splits YT TVL into the 5% Pendle fee and the net 95%", () => {
+    expect(rows[`yt-${key}`]).toMatchObject({ tvlAmount: 1_000_000, counted: false });
+    expect(rows[`pendle-fee-${key}`]).toMatchObject({ tvlAmount: 50_000, weightedTvl: 2_500_000, counted: true });
+    expect(rows[`yt-${key}-net`]).toMatchObject({ tvlAmount: 950_000, weightedTvl: 47_500_000, counted: true });
+  });
+
+  it("counts 80% of the LP SY portion and leaves the excluded 20% unweighted", () => {
+    expect(rows[`lp-${key}`]).toMatchObject({ tvlAmount: 500_000, counted: false });
+    expect(rows[`lp-excluded-${key}`]).toMatchObject({ tvlAmount: 100_000, weightedTvl: 0, counted: false });
+    expect(rows[`lp-${key}-net`]).toMatchObject({ tvlAmount: 400_000, weightedTvl: 20_000_000, counted: true });
+  });
+
+  it("keeps PT at zero weight", () => {
+    expect(rows[`pt-${key}`]).toMatchObject({ tvlAmount: 200_000, weightedTvl: 0, counted: false });
+  });
+
+  it("stops weighing and counting the rows of a matured market", () => {
+    const ids = getMarketRowIds(MATURED_MARKET);
+    for (const id of [ids.fee, ids.ytNet, ids.lpNet]) {
+      expect(rows[id]).toMatchObject({ status: "matured", weightedTvl: 0, share: 0, counted: false });
+    }
+    expect(rows[ids.ytNet].tvlAmount).toBe(380_000);
+  });
+
+  it("weighs lock buckets at base boost × lock boost", () => {
+    expect(rows["lock-nusd-3mo"]).toMatchObject({ effectiveBoost: 30, weightedTvl: 3_000_000 });
+    expect(rows["lock-nusd-12mo"]).toMatchObject({ effectiveBoost: 150, weightedTvl: 30_000_000 });
+    expect(rows["lock-curve-6mo"]).toMatchObject({ effectiveBoost: 50, weightedTvl: 5_000_000 });
+  });
+
+  it("totals only counted rows and shares them out of the counted total", () => {
+    expect(summary.totalTvl).toBe(5_100_000);
+    expect(summary.weightedTvl).toBe(121_800_000);
+    expect(summary.estWeeklyPoints).toBe(121_800_000 * 7);
+    const shares = Object.values(rows).filter((row) => row.counted).reduce((sum, row) => sum + row.share, 0);
+    expect(shares).toBeCloseTo(100);
+    expect(rows["hold-nusd"].share).toBeCloseTo((10_000_000 / 121_800_000) * 100);
+  });
+});
+
+describe("weighRows with live boosts", () => {
+  const rowTvls = { "hold-upnusd": 100_000, "hold-nusd": 1_000_000 };
+
+  it("replaces the configured boost and records where it came from", () => {
+    const live = { "hold-upnusd": { boost: 20, source: "points-api", changedAt: "2026-05-01T00:00:00.000Z", stale: false } };
+    const { rows, summary } = weighRows(applyLiveBoosts([HOLD_CATEGORY], live), rowTvls);
+
+    expect(rows["hold-upnusd"]).toMatchObject({
+      boost: 20,
+      effectiveBoost: 20,
+      weightedTvl: 2_000_000,
+      boostSource: "points-api",
+      boostChangedAt: "2026-05-01T00:00:00.000Z",
+    });
+    expect(rows["hold-nusd"]).toMatchObject({ boost: 5, boostSource: "config", boostChangedAt: null });
+    expect(summary.weightedTvl).toBe(2_000_000 + 5_000_000);
+  });
+
+  it("flags a boost served from the last recorded value", () => {
+    const live = { "hold-upnusd": { boost: 20, source: "points-api", changedAt: "2026-05-01T00:00:00.000Z", stale: true } };
+    const upnusd = applyLiveBoosts([HOLD_CATEGORY], live)[0].rows.find((row) => row.id === "hold-upnusd");
+    expect(upnusd).toMatchObject({ boost: 20, boostStale: true });
+  });
+
+  it("keeps the configured boosts when there are none", () => {
+    const { rows } = weighRows(applyLiveBoosts([HOLD_CATEGORY], {}), rowTvls);
+    expect(rows["hold-upnusd"]).toMatchObject({ boost: 18, weightedTvl: 1_800_000, boostSource: "config" });
+  });
+});
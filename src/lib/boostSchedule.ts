@@ -0,0 +1,99 @@
+// Versioned boost schedule. The boosts configured on the TVL rows (HOLD_CATEGORY) and the
+// Pendle markets (pointsMultiplier, feeSplit) are the values in force from the start; every
+// later change is a rule below with the time it takes effect. Change a boost by adding a
+// rule rather than editing those values, so past blocks and snapshots keep being weighed
+// with the boosts that applied at the time.
+
+import { MarketFeeSplit, PendleMarketConfig } from "./markets";
+import { HOLD_CATEGORY, TvlCategory, buildMarketCategory } from "./tvlData";
+
+export interface BoostRule {
+  // HOLD row id (e.g. "hold-nusd", "lock-snusd-6mo"), "market:<key>" for a Pendle market's
+  // points multiplier, or "pendleFee" / "lpExcluded" for the fee split of every market
+  target: string;
+  value: number;
+  baseBoost?: number;    // Lock subrows: the base boost the lock boost multiplies
+  effectiveFrom: string; // ISO timestamp the rule applies from
+  note?: string;
+}
+
+// Scheduled changes on top of the configured values, e.g.
+// { target: "lock-nusd-12mo", value: 35, baseBoost: 5, effectiveFrom: "2026-03-01T00:00:00.000Z", note: "S2 lock boosts" }
+export const BOOST_SCHEDULE: BoostRule[] = [];
+
+export interface UpcomingBoostChange extends BoostRule {
+  name: string;           // Row or market name for display
+  current: number | null; // Value in force now
+}
+
+const marketTarget = (key: string) => `market:${key}`;
+
+// Latest rule for each target that is in effect at `at` (ms)
+function getRulesAt(at: number): Map<string, BoostRule> {
+  const rules = new Map<string, BoostRule>();
+  BOOST_SCHEDULE
+    .filter((rule) => new Date(rule.effectiveFrom).getTime() <= at)
+    .sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime())
+    .forEach((rule) => rules.set(rule.target, rule));
+  return rules;
+}
+
+// A market with the multiplier and fee split in effect at `at`
+export function scheduleMarket(market: PendleMarketConfig, at: number = Date.now(), rules = getRulesAt(at)): PendleMarketConfig {
+  const multiplier = rules.get(marketTarget(market.key));
+  const pendleFee = rules.get("pendleFee");
+  const lpExcluded = rules.get("lpExcluded");
+  if (!multiplier && !pendleFee && !lpExcluded) return market;
+
+  const feeSplit: MarketFeeSplit = {
+    pendleFee: pendleFee?.value ?? market.feeSplit.pendleFee,
+    lpExcluded: lpExcluded?.value ?? market.feeSplit.lpExcluded,
+  };
+  return { ...market, pointsMultiplier: multiplier?.value ?? market.pointsMultiplier, feeSplit };
+}
+
+// HOLD category with the row boosts in effect at `at`
+export function scheduleHoldCategory(at: number = Date.now(), rules = getRulesAt(at)): TvlCategory {
+  return {
+    ...HOLD_CATEGORY,
+    rows: HOLD_CATEGORY.rows.map((row) => {
+      const rule = rules.get(row.id);
+      return rule ? { ...row, boost: rule.value, baseBoost: rule.baseBoost ?? row.baseBoost } : row;
+    }),
+  };
+}
+
+// Markets and TVL categories as weighed at `at` (ms): the schedule in effect then, and
+// market maturity checked against that time
+export function getScheduledTvlCategories(markets: PendleMarketConfig[], at: number = Date.now()) {
+  const rules = getRulesAt(at);
+  const scheduledMarkets = markets.map((market) => scheduleMarket(market, at, rules));
+  const categories: TvlCategory[] = [
+    ...scheduledMarkets.map((market) => buildMarketCategory(market, at)),
+    scheduleHoldCategory(at, rules),
+  ];
+  return { markets: scheduledMarkets, categories };
+}
+
+// Rules that haven't taken effect yet, soonest first, with the value each replaces
+export function getUpcomingBoostChanges(markets: PendleMarketConfig[], now: number = Date.now()): UpcomingBoostChange[] {
+  const rules = getRulesAt(now);
+  const hold = scheduleHoldCategory(now, rules);
+  const scheduledMarkets = markets.map((market) => scheduleMarket(market, now, rules));
+  const feeSplit = scheduledMarkets[0]?.feeSplit;
+
+  const describe = (target: string): { name: string; current: number | null } => {
+    if (target === "pendleFee" || target === "lpExcluded") {
+      return { name: target === "pendleFee" ? "Pendle fee (all markets)" : "LP excluded share (all markets)", current: feeSplit?.[target] ?? null };
+    }
+    const market = scheduledMarkets.find((m) => marketTarget(m.key) === target);
+    if (market) return { name: `${market.key} points multiplier`, current: market.pointsMultiplier };
+    const row = hold.rows.find((r) => r.id === target);
+    return { name: row?.name ?? target, current: row?.boost ?? null };
+  };
+
+  return BOOST_SCHEDULE
+    .filter((rule) => new Date(rule.effectiveFrom).getTime() > now)
+    .sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime())
+    .map((rule) => ({ ...rule, ...describe(rule.target) }));
+}
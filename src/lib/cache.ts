@@ -0,0 +1,189 @@
+// Shared cache for the API routes: TTLs, stale-while-revalidate and single-flight loads.
+// CACHE_BACKEND=memory (default) keeps entries in this server process;
+// CACHE_BACKEND=supabase also stores them in the api_cache table, so they survive restarts
+// and are shared between instances (needs SUPABASE_SERVICE_ROLE_KEY).
+
+import { getApiCacheEntry, setApiCacheEntry, supabaseAdmin } from "./supabase";
+
+export type CacheBackendName = "memory" | "supabase";
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;   // Unix ms
+  expiresAt: number;  // Fresh until then
+  staleUntil: number; // Served stale while refreshing until then, reloaded after
+}
+
+export interface CacheBackend {
+  name: CacheBackendName;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+}
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+export interface CacheOptions<T> {
+  ttlMs: number | ((value: T) => number); // Fixed, or per loaded value (e.g. shorter for partial data)
+  staleMs?: number;                      // Window after the TTL where the old value is served while reloading
+  shouldCache?: (value: T) => boolean;   // Return false to serve a value without storing it
+  refresh?: boolean;                     // Load now whatever the entry's age (it's still the fallback on failure)
+}
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  storedAt: number;
+  expiresAt: number;
+  error?: string; // Set when a reload failed and an old value was served instead
+}
+
+// Memory entries kept per process; the least recently used one is evicted past this
+const MAX_MEMORY_ENTRIES = 500;
+
+// How long an entry is kept after its stale window, as the fallback when a reload fails
+const EXPIRED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// LRU map: a read moves the key to the end, so the first key is always the oldest.
+// Entries past their retention are deleted when read.
+function createMemoryBackend(): CacheBackend {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  return {
+    name: "memory",
+    async get<T>(key: string) {
+      const entry = entries.get(key) as CacheEntry<T> | undefined;
+      if (!entry) return null;
+      entries.delete(key);
+      if (Date.now() >= entry.staleUntil + EXPIRED_RETENTION_MS) return null;
+      entries.set(key, entry);
+      return entry;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > MAX_MEMORY_ENTRIES) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+}
+
+// Memory in front of the table, so repeat reads in one process skip the round trip
+function createSupabaseBackend(): CacheBackend {
+  const memory = createMemoryBackend();
+  return {
+    name: "supabase",
+    async get<T>(key: string) {
+      const local = await memory.get<T>(key);
+      if (local && Date.now() < local.expiresAt) return local;
+
+      const record = await getApiCacheEntry(key);
+      if (!record || (local && local.storedAt >= record.stored_at)) return local;
+
+      const entry: CacheEntry<T> = {
+        value: record.value as T,
+        storedAt: record.stored_at,
+        expiresAt: record.expires_at,
+        staleUntil: record.stale_until,
+      };
+      await memory.set(key, entry);
+      return entry;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      await memory.set(key, entry);
+      await setApiCacheEntry({
+        key,
+        value: entry.value,
+        stored_at: entry.storedAt,
+        expires_at: entry.expiresAt,
+        stale_until: entry.staleUntil,
+      });
+    },
+  };
+}
+
+let cachedBackend: CacheBackend | null = null;
+
+export function getCacheBackend(): CacheBackend {
+  if (cachedBackend) return cachedBackend;
+
+  const name = (process.env.CACHE_BACKEND || "memory").toLowerCase();
+  if (name === "supabase") {
+    if (supabaseAdmin) {
+      cachedBackend = createSupabaseBackend();
+      return cachedBackend;
+    }
+    console.warn("CACHE_BACKEND=supabase but Supabase is not configured, falling back to memory");
+  } else if (name !== "memory") {
+    console.warn(`Unknown CACHE_BACKEND "${name}", falling back to memory`);
+  }
+
+  cachedBackend = createMemoryBackend();
+  return cachedBackend;
+}
+
+// Loads in progress per key; concurrent misses wait for the same load
+const inFlight = new Map<string, Promise<CacheEntry<unknown>>>();
+
+function load<T>(key: string, loader: () => Promise<T>, options: CacheOptions<T>): Promise<CacheEntry<T>> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<CacheEntry<T>>;
+
+  const promise = (async () => {
+    const value = await loader();
+    const storedAt = Date.now();
+    const ttlMs = typeof options.ttlMs === "function" ? options.ttlMs(value) : options.ttlMs;
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt,
+      expiresAt: storedAt + ttlMs,
+      staleUntil: storedAt + ttlMs + (options.staleMs ?? 0),
+    };
+    if (options.shouldCache?.(value) !== false) {
+      await getCacheBackend().set(key, entry);
+    }
+    return entry;
+  })().finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+// Cached value for `key`, calling `loader` at most once at a time per key.
+// Fresh entries are returned as is; entries in the stale window are returned straight away
+// while a reload runs in the background; anything older waits for a reload. If a reload
+// fails, the last value still held is served with the error; with none, it throws.
+export async function cached<T>(key: string, loader: () => Promise<T>, options: CacheOptions<T>): Promise<CacheResult<T>> {
+  const entry = await getCacheBackend().get<T>(key);
+  const now = Date.now();
+
+  if (entry && now < entry.expiresAt && !options.refresh) {
+    return { value: entry.value, status: "hit", storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+  }
+
+  if (entry && now < entry.staleUntil && !options.refresh) {
+    load(key, loader, options).catch((error) => {
+      console.error(`Background refresh of cache key "${key}" failed:`, error);
+    });
+    return { value: entry.value, status: "stale", storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+  }
+
+  try {
+    const fresh = await load(key, loader, options);
+    return { value: fresh.value, status: "miss", storedAt: fresh.storedAt, expiresAt: fresh.expiresAt };
+  } catch (error) {
+    if (!entry) throw error;
+    console.error(`Refresh of cache key "${key}" failed, serving stale value:`, error);
+    return {
+      value: entry.value,
+      status: "stale",
+      storedAt: entry.storedAt,
+      expiresAt: entry.expiresAt,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// X-Cache response header value
+export const cacheHeader = (status: CacheStatus) => status.toUpperCase();
@@ -1,4 +1,6 @@
-import { MARKETS, MarketKey, DECIMALS } from "./constants";
+import { DECIMALS } from "./constants";
+import { getMarket } from "./markets";
+import { scheduleMarket } from "./boostSchedule";
 
 export function parseUnits(value: number): string {
   return (BigInt(Math.floor(value * 10 ** DECIMALS))).toString();
@@ -18,22 +20,49 @@ export function calculateDaysToExpiry(expiryDate: string): number {
 
 export function calculateDailyPoints(
   ytReceived: number,
-  marketKey: MarketKey
+  marketKey: string
 ): number {
-  // Points per day = YT amount × market multiplier
-  const multiplier = MARKETS[marketKey].pointsMultiplier;
+  // Points per day = YT amount × market multiplier (as scheduled now)
+  const market = getMarket(marketKey);
+  const multiplier = market ? scheduleMarket(market).pointsMultiplier : 0;
   return ytReceived * multiplier;
 }
 
 export function calculateTotalPoints(
   ytReceived: number,
-  marketKey: MarketKey,
+  marketKey: string,
   daysToExpiry: number
 ): number {
   // Total points = daily points × days to expiry
   return calculateDailyPoints(ytReceived, marketKey) * daysToExpiry;
 }
 
+export function calculateLpDailyPoints(
+  lpValueUsd: number,
+  syShare: number,
+  marketKey: string
+): number {
+  // Points per day = SY portion of the LP × share not excluded × market multiplier (as scheduled now)
+  const market = getMarket(marketKey);
+  if (!market) return 0;
+  const { pointsMultiplier, feeSplit } = scheduleMarket(market);
+  return lpValueUsd * syShare * (1 - feeSplit.lpExcluded) * pointsMultiplier;
+}
+
+export function calculateLpYield(
+  lpValueUsd: number,
+  syShare: number,
+  apys: { underlyingApy: number; impliedApy: number; swapFeeApy: number },
+  daysToExpiry: number
+) {
+  // SY side earns the underlying APY, PT side accretes at the implied APY, swap fees accrue on the whole position
+  const years = daysToExpiry / 365;
+  const underlyingYield = lpValueUsd * syShare * apys.underlyingApy * years;
+  const ptYield = lpValueUsd * (1 - syShare) * apys.impliedApy * years;
+  const swapFees = lpValueUsd * apys.swapFeeApy * years;
+  return { underlyingYield, ptYield, swapFees, total: underlyingYield + ptYield + swapFees };
+}
+
 export function calculateEstimatedYield(
   ytAmount: number,
   underlyingApy: number,
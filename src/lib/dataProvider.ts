@@ -0,0 +1,165 @@
+// Pluggable source for ERC-20 totalSupply / balanceOf reads (server-side only).
+// Reads take an optional block number so one response can be pinned to a single block.
+// DATA_PROVIDER=etherscan (default) makes one rate-limited Etherscan eth_call per read;
+// DATA_PROVIDER=rpc batches every read into a single Multicall3 call over RPC_URL.
+// Any mainnet RPC works, including a local Anvil/Hardhat fork (RPC_URL=http://127.0.0.1:8545).
+
+import { Contract, Interface, JsonRpcProvider, formatUnits } from "ethers";
+import { RATE_LIMIT_DELAY, delay, ethCall, getBlockTimestamp, getCode, getLatestBlockNumber } from "./etherscan";
+
+export type DataProviderName = "etherscan" | "rpc";
+
+export type TokenRead =
+  | { type: "totalSupply"; token: string; decimals: number }
+  | { type: "balanceOf"; token: string; holder: string; decimals: number };
+
+export interface BlockRef {
+  number: number;
+  timestamp: number; // Unix seconds
+}
+
+export interface ChainDataProvider {
+  name: DataProviderName;
+  // A block by number, or the latest block when omitted
+  getBlock(blockNumber?: number): Promise<BlockRef | null>;
+  // Reads are keyed by caller-chosen names and run at `blockNumber` (latest when omitted);
+  // a failed read comes back as null
+  read(reads: Record<string, TokenRead>, blockNumber?: number): Promise<Record<string, number | null>>;
+  // Whether a contract is deployed at `address` as of `blockNumber`; null when the check fails
+  hasCode(address: string, blockNumber?: number): Promise<boolean | null>;
+}
+
+export const totalSupply = (token: string, decimals: number = 18): TokenRead =>
+  ({ type: "totalSupply", token, decimals });
+
+export const balanceOf = (token: string, holder: string, decimals: number = 18): TokenRead =>
+  ({ type: "balanceOf", token, holder, decimals });
+
+// Deployed at the same address on mainnet and every fork
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const ERC20_ABI = new Interface([
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address owner) view returns (uint256)",
+]);
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+const encodeRead = (read: TokenRead): string =>
+  read.type === "totalSupply"
+    ? ERC20_ABI.encodeFunctionData("totalSupply")
+    : ERC20_ABI.encodeFunctionData("balanceOf", [read.holder]);
+
+// Null for empty or malformed return data (e.g. the token doesn't exist at that block)
+const decodeRead = (read: TokenRead, returnData: string | null): number | null => {
+  if (!returnData || returnData === "0x") return null;
+  try {
+    const [value] = ERC20_ABI.decodeFunctionResult(read.type, returnData);
+    return Number(formatUnits(value, read.decimals));
+  } catch (error) {
+    console.error(`Error decoding ${read.type} for ${read.token}:`, error);
+    return null;
+  }
+};
+
+// One Etherscan eth_call per read, spaced out for the free-tier rate limit
+const etherscanProvider: ChainDataProvider = {
+  name: "etherscan",
+  async getBlock(blockNumber) {
+    const number = blockNumber ?? await getLatestBlockNumber();
+    if (number === null) return null;
+    const timestamp = await getBlockTimestamp(number);
+    return timestamp !== null ? { number, timestamp } : null;
+  },
+  async read(reads, blockNumber) {
+    const results: Record<string, number | null> = {};
+    for (const [key, read] of Object.entries(reads)) {
+      results[key] = decodeRead(read, await ethCall(read.token, encodeRead(read), blockNumber));
+      await delay(RATE_LIMIT_DELAY);
+    }
+    return results;
+  },
+  async hasCode(address, blockNumber) {
+    const code = await getCode(address, blockNumber);
+    await delay(RATE_LIMIT_DELAY);
+    return code !== null ? code !== "0x" : null;
+  },
+};
+
+// All reads in one eth_call through Multicall3; individual failures don't sink the batch
+function createRpcProvider(rpcUrl: string): ChainDataProvider {
+  const provider = new JsonRpcProvider(rpcUrl, 1, { staticNetwork: true });
+  const multicall = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+
+  return {
+    name: "rpc",
+    async getBlock(blockNumber) {
+      try {
+        const block = await provider.getBlock(blockNumber ?? "latest");
+        return block ? { number: block.number, timestamp: block.timestamp } : null;
+      } catch (error) {
+        console.error("Error fetching block:", error);
+        return null;
+      }
+    },
+    async read(reads, blockNumber) {
+      const entries = Object.entries(reads);
+      const results: Record<string, number | null> = Object.fromEntries(entries.map(([key]) => [key, null]));
+      if (entries.length === 0) return results;
+
+      try {
+        const calls = entries.map(([, read]) => ({
+          target: read.token,
+          allowFailure: true,
+          callData: encodeRead(read),
+        }));
+        const responses: { success: boolean; returnData: string }[] =
+          await multicall.aggregate3.staticCall(calls, { blockTag: blockNumber ?? "latest" });
+
+        responses.forEach((response, i) => {
+          const [key, read] = entries[i];
+          if (!response.success) {
+            console.error(`Multicall read failed for ${key} (${read.token})`);
+            return;
+          }
+          results[key] = decodeRead(read, response.returnData);
+        });
+      } catch (error) {
+        console.error("Error executing Multicall3 batch:", error);
+      }
+
+      return results;
+    },
+    async hasCode(address, blockNumber) {
+      try {
+        return (await provider.getCode(address, blockNumber ?? "latest")) !== "0x";
+      } catch (error) {
+        console.error(`Error fetching code of ${address}:`, error);
+        return null;
+      }
+    },
+  };
+}
+
+let cachedProvider: ChainDataProvider | null = null;
+
+export function getDataProvider(): ChainDataProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const name = (process.env.DATA_PROVIDER || "etherscan").toLowerCase();
+  if (name === "rpc") {
+    const rpcUrl = process.env.RPC_URL;
+    if (rpcUrl) {
+      cachedProvider = createRpcProvider(rpcUrl);
+      return cachedProvider;
+    }
+    console.warn("DATA_PROVIDER=rpc but RPC_URL is not set, falling back to Etherscan");
+  } else if (name !== "etherscan") {
+    console.warn(`Unknown DATA_PROVIDER "${name}", falling back to Etherscan`);
+  }
+
+  cachedProvider = etherscanProvider;
+  return cachedProvider;
+}
@@ -0,0 +1,86 @@
+// Calibrated emission model: how many points the season actually issues per weighted
+// dollar per day, measured from snapshot-to-snapshot growth of the points total against
+// the weighted TVL over the same interval. The 1:1 assumption (1 weighted dollar =
+// 1 point/day) is the fallback until there is enough live history.
+
+export interface EmissionSample {
+  capturedAtUnix: number;
+  pointsIssued: number; // Season points total at capture (s1RewardsIssued)
+  weightedTvl: number;
+}
+
+export interface EmissionModel {
+  pointsPerDollar: number; // Points per weighted dollar per day
+  low: number;             // 95% confidence band
+  high: number;
+  intervals: number;       // Snapshot intervals the fit used
+  days: number;            // Days those intervals cover
+  calibrated: boolean;     // False when falling back to 1:1
+}
+
+export const DEFAULT_EMISSION_MODEL: EmissionModel = {
+  pointsPerDollar: 1,
+  low: 1,
+  high: 1,
+  intervals: 0,
+  days: 0,
+  calibrated: false,
+};
+
+const SECONDS_PER_DAY = 86400;
+// Snapshots closer together than this are merged into one interval, so points API
+// update lag doesn't show up as zero-then-double issuance
+const MIN_INTERVAL_SECONDS = 12 * 60 * 60;
+const MIN_INTERVALS = 2;
+const Z_95 = 1.96;
+
+// Fit points per weighted dollar from snapshots sorted oldest first. Each interval's rate is
+// points issued / (average weighted TVL × days); the estimate is the day-weighted mean rate
+// and the band is its 95% confidence interval.
+export function calibrateEmission(samples: EmissionSample[]): EmissionModel {
+  // Snapshots without a points total (points API was down at capture) can't anchor an interval
+  const usable = samples.filter((s) => s.pointsIssued > 0 && s.weightedTvl > 0);
+
+  const rates: { rate: number; days: number }[] = [];
+  let anchor = usable[0];
+  for (const sample of usable.slice(1)) {
+    const seconds = sample.capturedAtUnix - anchor.capturedAtUnix;
+    if (seconds < MIN_INTERVAL_SECONDS) continue;
+
+    const days = seconds / SECONDS_PER_DAY;
+    const pointsDelta = sample.pointsIssued - anchor.pointsIssued;
+    const avgWeightedTvl = (sample.weightedTvl + anchor.weightedTvl) / 2;
+    // A falling total means a reset or a bad read, not negative issuance
+    if (pointsDelta >= 0) {
+      rates.push({ rate: pointsDelta / (avgWeightedTvl * days), days });
+    }
+    anchor = sample;
+  }
+
+  if (rates.length < MIN_INTERVALS) return DEFAULT_EMISSION_MODEL;
+
+  const totalDays = rates.reduce((sum, r) => sum + r.days, 0);
+  const mean = rates.reduce((sum, r) => sum + r.rate * r.days, 0) / totalDays;
+  const variance = rates.reduce((sum, r) => sum + r.days * (r.rate - mean) ** 2, 0) / totalDays;
+  // Effective sample size for day-weighted intervals
+  const effectiveN = totalDays ** 2 / rates.reduce((sum, r) => sum + r.days ** 2, 0);
+  const margin = Z_95 * Math.sqrt(variance / effectiveN);
+
+  return {
+    pointsPerDollar: mean,
+    low: Math.max(0, mean - margin),
+    high: mean + margin,
+    intervals: rates.length,
+    days: totalDays,
+    calibrated: true,
+  };
+}
+
+// Points for a 1:1 estimate (weighted dollars × days) under the model, with its band
+export function applyEmission(points: number, model: EmissionModel) {
+  return {
+    estimate: points * model.pointsPerDollar,
+    low: points * model.low,
+    high: points * model.high,
+  };
+}
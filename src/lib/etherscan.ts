@@ -0,0 +1,174 @@
+// Etherscan v2 helpers shared by the TVL and portfolio routes (server-side only)
+
+export const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY;
+const ETHERSCAN_API_BASE = "https://api.etherscan.io/v2/api";
+
+// Free tier: 5 calls/sec, 300ms between calls = ~3.3 calls/sec
+export const RATE_LIMIT_DELAY = 300;
+
+// Helper function to add delay between requests
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface EtherscanLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;   // Hex, e.g. "0x1402a3b"
+  timeStamp: string;     // Hex unix seconds
+  logIndex: string;      // Hex
+  transactionHash: string;
+}
+
+// Left-pad an address to a 32-byte topic, e.g. for filtering on an indexed address
+export function toAddressTopic(address: string): string {
+  return "0x" + address.replace("0x", "").toLowerCase().padStart(64, "0");
+}
+
+// Proxy results that aren't usable JSON-RPC output: status "0" notices (rate limit, bad key)
+// come back in `result` as plain text, so they have to be told apart from hex data
+export class EtherscanProxyError extends Error {
+  constructor(public action: string, message: string) {
+    super(`${action}: ${message}`);
+    this.name = "EtherscanProxyError";
+  }
+}
+
+const PROXY_MAX_RETRIES = 3;
+
+const isHex = (value: unknown): value is string => typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value);
+
+// Etherscan's proxy module forwards plain JSON-RPC calls and, unlike tokensupply/tokenbalance,
+// accepts a block tag, which is what lets every read of one response be pinned to the same block.
+// Status "0" notices and non-hex string results are retried with backoff, then thrown as
+// EtherscanProxyError; JSON-RPC errors (e.g. a revert) are thrown straight away.
+async function proxyCall(action: string, params: string, retryCount = 0): Promise<unknown> {
+  const url = `${ETHERSCAN_API_BASE}?chainid=1&module=proxy&action=${action}${params}&apikey=${ETHERSCAN_API_KEY}`;
+  const response = await fetch(url, { cache: "no-store" });
+  const data = await response.json();
+
+  if (data.error) {
+    throw new EtherscanProxyError(action, data.error.message || "JSON-RPC error");
+  }
+  if (data.result === undefined || data.result === null) {
+    throw new EtherscanProxyError(action, data.message || "Empty proxy result");
+  }
+
+  if (data.status === "0" || (typeof data.result === "string" && !isHex(data.result))) {
+    const message = typeof data.result === "string" ? data.result : data.message || "Invalid proxy result";
+    if (retryCount < PROXY_MAX_RETRIES) {
+      const retryDelay = RATE_LIMIT_DELAY * Math.pow(2, retryCount + 1);
+      console.log(`Etherscan ${action} returned "${message}". Retrying in ${retryDelay}ms... (attempt ${retryCount + 1}/${PROXY_MAX_RETRIES})`);
+      await delay(retryDelay);
+      return proxyCall(action, params, retryCount + 1);
+    }
+    throw new EtherscanProxyError(action, message);
+  }
+  return data.result;
+}
+
+const toBlockTag = (blockNumber?: number) => (blockNumber !== undefined ? "0x" + blockNumber.toString(16) : "latest");
+
+// Latest block number
+export async function getLatestBlockNumber(): Promise<number | null> {
+  try {
+    return parseInt((await proxyCall("eth_blockNumber", "")) as string, 16);
+  } catch (error) {
+    console.error(`Error fetching latest block number:`, error);
+    return null;
+  }
+}
+
+// Unix timestamp (seconds) of a block
+export async function getBlockTimestamp(blockNumber: number): Promise<number | null> {
+  try {
+    const block = (await proxyCall("eth_getBlockByNumber", `&tag=${toBlockTag(blockNumber)}&boolean=false`)) as { timestamp?: unknown };
+    if (!isHex(block.timestamp)) {
+      throw new EtherscanProxyError("eth_getBlockByNumber", `No timestamp for block ${blockNumber}`);
+    }
+    return parseInt(block.timestamp, 16);
+  } catch (error) {
+    console.error(`Error fetching block ${blockNumber}:`, error);
+    return null;
+  }
+}
+
+// Raw eth_call at a block (latest when omitted), returning the hex-encoded result
+export async function ethCall(to: string, data: string, blockNumber?: number): Promise<string | null> {
+  try {
+    return (await proxyCall("eth_call", `&to=${to}&data=${data}&tag=${toBlockTag(blockNumber)}`)) as string;
+  } catch (error) {
+    console.error(`Error calling ${to}:`, error);
+    return null;
+  }
+}
+
+// Contract bytecode at a block (latest when omitted); "0x" when nothing is deployed there
+export async function getCode(address: string, blockNumber?: number): Promise<string | null> {
+  try {
+    return (await proxyCall("eth_getCode", `&address=${address}&tag=${toBlockTag(blockNumber)}`)) as string;
+  } catch (error) {
+    console.error(`Error fetching code of ${address}:`, error);
+    return null;
+  }
+}
+
+export interface LogQuery {
+  topic0?: string; // Event signature; omit to fetch every event of the contract
+  topics?: Partial<Record<"topic1" | "topic2" | "topic3", string>>; // ANDed with topic0 when set
+  fromBlock?: number;
+  toBlock?: number | "latest";
+  page?: number;
+  offset?: number; // Page size, max 1000
+}
+
+// Fetch one page of event logs for a contract.
+// Etherscan reports "No records found" as status "0", which is returned as an empty list.
+export async function getLogs(
+  contractAddress: string,
+  { topic0, topics = {}, fromBlock = 0, toBlock = "latest", page = 1, offset = 1000 }: LogQuery = {}
+): Promise<EtherscanLog[] | null> {
+  try {
+    const topicParams = (topic0 ? `&topic0=${topic0}` : "") + Object.entries(topics)
+      .map(([name, value]) => `&${name}=${value}` + (topic0 ? `&topic0_${name.slice(-1)}_opr=and` : ""))
+      .join("");
+    const url = `${ETHERSCAN_API_BASE}?chainid=1&module=logs&action=getLogs&address=${contractAddress}${topicParams}&fromBlock=${fromBlock}&toBlock=${toBlock}&page=${page}&offset=${offset}&apikey=${ETHERSCAN_API_KEY}`;
+    const response = await fetch(url, { cache: "no-store" });
+    const data = await response.json();
+
+    if (data.status === "1" && data.result) {
+      return data.result;
+    }
+    if (data.message === "No records found") {
+      return [];
+    }
+    console.error(`Error fetching logs for ${contractAddress}:`, data.message);
+    return null;
+  } catch (error) {
+    console.error(`Error fetching logs for ${contractAddress}:`, error);
+    return null;
+  }
+}
+
+// Verified ABI (JSON) of a contract; for a proxy, its implementation's. Null when the
+// source isn't verified or the request fails.
+export async function getContractAbi(address: string): Promise<string | null> {
+  try {
+    const url = `${ETHERSCAN_API_BASE}?chainid=1&module=contract&action=getsourcecode&address=${address}&apikey=${ETHERSCAN_API_KEY}`;
+    const response = await fetch(url, { cache: "no-store" });
+    const data = await response.json();
+
+    const source = data.status === "1" && Array.isArray(data.result) ? data.result[0] : null;
+    if (!source?.ABI || source.ABI === "Contract source code not verified") {
+      console.error(`No verified ABI for ${address}:`, data.message);
+      return null;
+    }
+    if (source.Proxy === "1" && source.Implementation && source.Implementation.toLowerCase() !== address.toLowerCase()) {
+      await delay(RATE_LIMIT_DELAY);
+      return getContractAbi(source.Implementation);
+    }
+    return source.ABI;
+  } catch (error) {
+    console.error(`Error fetching ABI of ${address}:`, error);
+    return null;
+  }
+}
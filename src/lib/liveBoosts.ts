@@ -0,0 +1,96 @@
+// Boosts driven by live data rather than the configured TVL rows. Each new value is recorded
+// with the time it changed, in the live_boosts table (or in memory for the life of the
+// process when Supabase isn't configured); when the source can't be read the last recorded
+// value is served instead, marked stale. Past blocks use the value recorded as in force at
+// their block time, so backfills weigh with the same boost live builds did.
+
+import { getCachedPoints } from "./pointsSource";
+import { LiveBoostRecord, getLiveBoostRecords, isSupabaseConfigured, saveLiveBoostRecord } from "./supabase";
+import type { LiveBoost } from "./weighting";
+
+// TVL rows whose boost comes from live data, and how to read it
+const LIVE_BOOST_ROWS: { rowId: string; source: string; read: () => Promise<number | null> }[] = [
+  {
+    // upNUSD multiplier from the Ethereum season program; null when points come from a snapshot
+    rowId: "hold-upnusd",
+    source: "points-api",
+    read: async () => (await getCachedPoints()).value.upNusdMultiplier,
+  },
+];
+
+export const LIVE_BOOST_ROW_IDS = LIVE_BOOST_ROWS.map((row) => row.rowId);
+
+const memoryRecords: LiveBoostRecord[] = [];
+
+// Every recorded change, oldest first
+async function loadRecords(): Promise<LiveBoostRecord[]> {
+  if (!isSupabaseConfigured) return memoryRecords;
+  return getLiveBoostRecords();
+}
+
+async function saveRecord(record: LiveBoostRecord): Promise<void> {
+  if (!isSupabaseConfigured) {
+    memoryRecords.push(record);
+    return;
+  }
+  await saveLiveBoostRecord(record);
+}
+
+// The row's last change at or before `at` (Unix ms)
+function recordAt(records: LiveBoostRecord[], rowId: string, at: number): LiveBoostRecord | undefined {
+  return records.findLast((record) => record.row_id === rowId && new Date(record.changed_at).getTime() <= at);
+}
+
+// Current live boost per row id. A source that can't be read falls back to its last recorded
+// value (stale); rows with neither are left out, so the weighting engine keeps their
+// configured boost. Records are only written when the value changes.
+export async function getLiveBoosts(): Promise<Record<string, LiveBoost>> {
+  const records = await loadRecords();
+  const boosts: Record<string, LiveBoost> = {};
+
+  await Promise.all(LIVE_BOOST_ROWS.map(async ({ rowId, source, read }) => {
+    const previous = recordAt(records, rowId, Infinity);
+
+    let boost: number | null = null;
+    try {
+      boost = await read();
+    } catch (error) {
+      console.error(`Error reading live boost for ${rowId}:`, error);
+    }
+    if (boost === null || !Number.isFinite(boost) || boost <= 0) {
+      if (previous) {
+        console.warn(`Live boost for ${rowId} unavailable, using last recorded ${previous.boost}x from ${previous.changed_at}`);
+        boosts[rowId] = { boost: previous.boost, source: previous.source, changedAt: previous.changed_at, stale: true };
+      }
+      return;
+    }
+
+    if (previous && previous.boost === boost) {
+      boosts[rowId] = { boost, source, changedAt: previous.changed_at, stale: false };
+      return;
+    }
+    if (previous) {
+      console.log(`Live boost for ${rowId} changed: ${previous.boost}x → ${boost}x`);
+    }
+
+    const now = new Date().toISOString();
+    await saveRecord({ row_id: rowId, boost, source, changed_at: now, checked_at: now });
+    boosts[rowId] = { boost, source, changedAt: now, stale: false };
+  }));
+
+  return boosts;
+}
+
+// Live boosts in force at a past time (Unix ms), from the recorded changes. Rows with no
+// change recorded by then are left out and keep their configured boost.
+export async function getLiveBoostsAt(at: number): Promise<Record<string, LiveBoost>> {
+  const records = await loadRecords();
+  const boosts: Record<string, LiveBoost> = {};
+  LIVE_BOOST_ROW_IDS.forEach((rowId) => {
+    const record = recordAt(records, rowId, at);
+    if (record) {
+      boosts[rowId] = { boost: record.boost, source: record.source, changedAt: record.changed_at, stale: false };
+    }
+  });
+  return boosts;
+}
@@ -0,0 +1,453 @@
+import { Interface } from "ethers";
+import { UNDERLYINGS, NEUTRL_CONTRACTS } from "./markets";
+import { EtherscanLog, RATE_LIMIT_DELAY, delay, getContractAbi, getLogs, toAddressTopic } from "./etherscan";
+import type { BlockRef } from "./dataProvider";
+import {
+  LockEventRecord,
+  getIndexerState,
+  getLockEvents,
+  isSupabaseConfigured,
+  saveLockEvents,
+  setIndexerState,
+} from "./supabase";
+
+// Lock contract events, pinned as topic hashes. Every event indexes user (topic1) and asset (topic2).
+// AssetLocked is the hash seen on chain. The other three are keccak256 of the signatures noted
+// next to them; the indexer checks all four against the lock contract's verified ABI before
+// storing anything (see verifyLockTopics). Logs with any other topic are counted and logged
+// (see fetchLockLogs), so a wrong hash shows up as unrecognised logs instead of locks that
+// never unlock.
+export const ASSET_LOCKED_TOPIC = "0x268464d6ecafe069c26e10a65fd45bb8ab70b43c6d40afb2423a6b47af771a55";     // AssetLocked(address,address,uint256,uint128): amount, unlockTime
+export const ASSET_UNLOCKED_TOPIC = "0x222c6ed7b5072fb6bd2df981ed14e2ab1c55977a6ca60e155a6f86c49417220a";   // AssetUnlocked(address,address,uint256): amount
+export const EARLY_WITHDRAWAL_TOPIC = "0x293037788d87ac1cd6e14a58daea87cdc73495ac74b7be45eabf2ea86d256697"; // EarlyWithdrawal(address,address,uint256,uint256): amount, penalty
+export const LOCK_EXTENDED_TOPIC = "0x1b874a7ecfe5586a222fa1c84e27f57bb7b54872e9daaea86137100c177cb3d4";    // LockExtended(address,address,uint128): newUnlockTime
+
+const EVENT_TYPES: Record<string, LockEventRecord["event_type"]> = {
+  [ASSET_LOCKED_TOPIC]: "locked",
+  [ASSET_UNLOCKED_TOPIC]: "unlocked",
+  [EARLY_WITHDRAWAL_TOPIC]: "early_withdrawal",
+  [LOCK_EXTENDED_TOPIC]: "extended",
+};
+
+// Name of the lock contract indexer in the indexer_state table
+const LOCK_INDEXER = "lock_contract";
+
+// Etherscan returns at most 1,000 logs per request
+const LOGS_PAGE_SIZE = 1000;
+
+// Window for the "recently unlocked" figure
+export const RECENTLY_UNLOCKED_DAYS = 7;
+
+// Lock duration buckets interface
+export interface LockBucket {
+  count: number;
+  amount: number;
+}
+
+// Locks that expired or were withdrawn early within the recent window
+export interface RecentlyUnlocked {
+  count: number;
+  amount: number;
+}
+
+export interface AssetLockData {
+  totalLocked: number;
+  buckets: {
+    "3mo": LockBucket;       // 90-179 days
+    "6mo": LockBucket;       // 180-269 days
+    "9mo": LockBucket;       // 270-364 days
+    "12mo": LockBucket;      // 365+ days
+  };
+  recentlyUnlocked: RecentlyUnlocked;
+}
+
+// Curve LP has different buckets (max 6 months)
+export interface CurveLpLockData {
+  totalLocked: number;
+  buckets: {
+    "3mo": LockBucket;       // 90-149 days
+    "6mo": LockBucket;       // 150+ days (max)
+  };
+  recentlyUnlocked: RecentlyUnlocked;
+}
+
+export interface LockData {
+  nusd: AssetLockData;
+  snusd: AssetLockData;
+  curveLp: CurveLpLockData;
+}
+
+// Initialize data structures for NUSD/sNUSD (4 buckets)
+const createEmptyAssetData = (): AssetLockData => ({
+  totalLocked: 0,
+  buckets: {
+    "3mo": { count: 0, amount: 0 },   // 90-179 days
+    "6mo": { count: 0, amount: 0 },   // 180-269 days
+    "9mo": { count: 0, amount: 0 },   // 270-364 days
+    "12mo": { count: 0, amount: 0 },  // 365+ days
+  },
+  recentlyUnlocked: { count: 0, amount: 0 },
+});
+
+// Initialize data structures for Curve LP (2 buckets, max 6 months)
+const createEmptyCurveLpData = (): CurveLpLockData => ({
+  totalLocked: 0,
+  buckets: {
+    "3mo": { count: 0, amount: 0 },   // 90-149 days
+    "6mo": { count: 0, amount: 0 },   // 150+ days (max)
+  },
+  recentlyUnlocked: { count: 0, amount: 0 },
+});
+
+// Etherscan encodes zero as "0x"
+const hexToNumber = (hex: string): number => parseInt(hex, 16) || 0;
+
+const topicToAddress = (topic: string): string => "0x" + topic.slice(-40).toLowerCase();
+
+// Nth 32-byte word of the log data
+const dataWord = (data: string, index: number): bigint =>
+  BigInt("0x" + (data.slice(2 + index * 64, 2 + (index + 1) * 64) || "0"));
+
+// Duration bucket for a lock, or null if shorter than the smallest bucket
+export function getLockBucket(asset: string, durationDays: number): string | null {
+  // Curve LP locks max out at 6 months (150+ days = max boost)
+  if (asset.toLowerCase() === NEUTRL_CONTRACTS.curvePool.toLowerCase()) {
+    if (durationDays >= 150) return "6mo";
+    if (durationDays >= 90) return "3mo";
+    return null;
+  }
+  if (durationDays >= 365) return "12mo";
+  if (durationDays >= 270) return "9mo";
+  if (durationDays >= 180) return "6mo";
+  if (durationDays >= 90) return "3mo";
+  return null;
+}
+
+// Decode a lock contract log into the stored record shape; unknown events return null
+export function decodeLockEvent(log: EtherscanLog): LockEventRecord | null {
+  const eventType = EVENT_TYPES[log.topics[0]?.toLowerCase()];
+  if (!eventType || !log.topics[1] || !log.topics[2]) return null;
+
+  const asset = topicToAddress(log.topics[2]);
+  const blockTime = hexToNumber(log.timeStamp);
+
+  // Locks carry amount + unlock time, extensions only the new unlock time, withdrawals only the amount
+  const amount = eventType === "extended" ? 0 : Number(dataWord(log.data, 0)) / 1e18;
+  const unlockTime = eventType === "locked" ? Number(dataWord(log.data, 1))
+    : eventType === "extended" ? Number(dataWord(log.data, 0))
+    : null;
+  const durationDays = unlockTime !== null ? Math.round((unlockTime - blockTime) / 86400) : null;
+
+  return {
+    tx_hash: log.transactionHash.toLowerCase(),
+    log_index: hexToNumber(log.logIndex),
+    block_number: hexToNumber(log.blockNumber),
+    block_timestamp: blockTime,
+    event_type: eventType,
+    user_address: topicToAddress(log.topics[1]),
+    asset,
+    amount,
+    unlock_time: unlockTime,
+    duration_days: durationDays,
+    bucket: durationDays !== null ? getLockBucket(asset, durationDays) : null,
+  };
+}
+
+export interface LockLogs {
+  events: LockEventRecord[];
+  undecoded: number; // Logs whose topic matched none of the lock events
+}
+
+// Page through every lock contract log from `fromBlock` up to `toBlock` (latest when omitted).
+// Each page restarts at the last block of the previous one (a full page can split a block),
+// so duplicates are dropped. Logs that don't decode are counted per topic and logged.
+async function fetchLockLogs(fromBlock: number, user?: string, toBlock?: number): Promise<LockLogs | null> {
+  const events = new Map<string, LockEventRecord>();
+  const undecoded = new Map<string, Set<string>>(); // topic0 -> tx-logIndex seen
+  let cursor = fromBlock;
+
+  while (true) {
+    const logs = await getLogs(NEUTRL_CONTRACTS.lock, {
+      topics: user ? { topic1: toAddressTopic(user) } : {},
+      fromBlock: cursor,
+      toBlock: toBlock ?? "latest",
+      offset: LOGS_PAGE_SIZE,
+    });
+    if (!logs) return null;
+
+    for (const log of logs) {
+      const event = decodeLockEvent(log);
+      if (event) {
+        events.set(`${event.tx_hash}-${event.log_index}`, event);
+      } else {
+        const topic = log.topics[0]?.toLowerCase() ?? "(none)";
+        if (!undecoded.has(topic)) undecoded.set(topic, new Set());
+        undecoded.get(topic)!.add(`${log.transactionHash}-${log.logIndex}`);
+      }
+    }
+
+    if (logs.length < LOGS_PAGE_SIZE) break;
+
+    const lastBlock = hexToNumber(logs[logs.length - 1].blockNumber);
+    if (lastBlock <= cursor) {
+      console.error(`More than ${LOGS_PAGE_SIZE} lock contract logs in block ${cursor}, stopping pagination`);
+      return null;
+    }
+    cursor = lastBlock;
+    await delay(RATE_LIMIT_DELAY);
+  }
+
+  let undecodedCount = 0;
+  undecoded.forEach((logs, topic) => {
+    undecodedCount += logs.size;
+    console.warn(`⚠️ ${logs.size} lock contract log(s) with unrecognised topic ${topic} - check the lock event topic hashes`);
+  });
+
+  return {
+    events: [...events.values()].sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index),
+    undecoded: undecodedCount,
+  };
+}
+
+// Set once the topics have been found in the lock contract's ABI
+let lockTopicsVerified = false;
+
+// Check every pinned topic against the lock contract's verified ABI, with user and asset as
+// the first two indexed parameters (the layout decodeLockEvent reads). Returns the problems
+// found, or null when the ABI can't be fetched.
+export async function verifyLockTopics(): Promise<string[] | null> {
+  const abi = await getContractAbi(NEUTRL_CONTRACTS.lock);
+  if (!abi) return null;
+
+  const events = new Map<string, boolean[]>(); // topic hash -> indexed flag per input
+  try {
+    new Interface(abi).forEachEvent((event) => {
+      events.set(event.topicHash.toLowerCase(), event.inputs.map((input) => !!input.indexed));
+    });
+  } catch (error) {
+    console.error("Error parsing the lock contract ABI:", error);
+    return null;
+  }
+
+  return Object.entries(EVENT_TYPES).flatMap(([topic, eventType]) => {
+    const indexed = events.get(topic);
+    if (!indexed) return [`${eventType} topic ${topic} is not an event of the lock contract`];
+    if (!indexed[0] || !indexed[1] || indexed.slice(2).some(Boolean)) {
+      return [`${eventType} topic ${topic} doesn't index only user and asset`];
+    }
+    return [];
+  });
+}
+
+// Fetch lock contract events newer than the last indexed block and store them.
+// The first run starts from block 0. Nothing is stored until every pinned topic has been
+// found in the lock contract's ABI.
+// `undecoded` counts logs in this run that matched no lock event topic.
+export async function indexLockEvents(): Promise<{ success: boolean; indexed: number; undecoded: number; lastBlock: number | null; error?: string }> {
+  const lastIndexed = await getIndexerState(LOCK_INDEXER);
+  const fromBlock = lastIndexed !== null ? lastIndexed + 1 : 0;
+
+  if (!lockTopicsVerified) {
+    const problems = await verifyLockTopics();
+    if (!problems) {
+      return { success: false, indexed: 0, undecoded: 0, lastBlock: lastIndexed, error: "Failed to fetch the lock contract ABI" };
+    }
+    if (problems.length > 0) {
+      problems.forEach((problem) => console.error(`⚠️ ${problem}`));
+      return { success: false, indexed: 0, undecoded: 0, lastBlock: lastIndexed, error: `Lock event topics don't match the lock contract ABI: ${problems.join("; ")}` };
+    }
+    lockTopicsVerified = true;
+  }
+
+  const logs = await fetchLockLogs(fromBlock);
+  if (!logs) {
+    return { success: false, indexed: 0, undecoded: 0, lastBlock: lastIndexed, error: "Failed to fetch lock contract logs" };
+  }
+  const { events, undecoded } = logs;
+  if (events.length === 0) {
+    return { success: true, indexed: 0, undecoded, lastBlock: lastIndexed };
+  }
+
+  const saved = await saveLockEvents(events);
+  if (!saved.success) {
+    return { success: false, indexed: 0, undecoded, lastBlock: lastIndexed, error: saved.error };
+  }
+
+  const lastBlock = events[events.length - 1].block_number;
+  const state = await setIndexerState(LOCK_INDEXER, lastBlock);
+  if (!state.success) {
+    return { success: false, indexed: events.length, undecoded, lastBlock: lastIndexed, error: state.error };
+  }
+
+  console.log(`📊 Indexed ${events.length} lock contract events up to block ${lastBlock}${undecoded > 0 ? ` (${undecoded} unrecognised)` : ""}`);
+  return { success: true, indexed: events.length, undecoded, lastBlock };
+}
+
+// One lock, as rebuilt from the event history. Events carry no lock id, so each
+// AssetLocked event starts its own lock and later events for the same user and asset
+// are matched to one of that pair's locks (see replayLockEvents).
+interface LockPosition {
+  id: string;         // tx hash and log index of the AssetLocked event
+  asset: string;
+  amount: number;
+  unlockTime: number;
+  lockedAt: number;   // Time of the lock or extension that set the current unlock time
+  expired: boolean;   // Expiry already recorded
+}
+
+// Replay events in chain order into one position per lock. Returns the positions and the
+// amounts that left the lock (expiry or early withdrawal) with the time it happened.
+// Unlocks draw on the pair's matured locks first, early withdrawals on its running ones,
+// each earliest unlock first; an extension moves the pair's latest-unlocking lock.
+function replayLockEvents(events: LockEventRecord[], now: number) {
+  const locksByPair = new Map<string, LockPosition[]>();
+  const unlocks: { asset: string; amount: number; time: number }[] = [];
+
+  // Record an expiry the first time we look at a position past its unlock time
+  const settleExpiry = (position: LockPosition, time: number) => {
+    if (!position.expired && position.amount > 0 && position.unlockTime <= time) {
+      unlocks.push({ asset: position.asset, amount: position.amount, time: position.unlockTime });
+      position.expired = true;
+    }
+  };
+
+  // Take `amount` out of the locks, `expired` ones first when preferExpired (else last)
+  const withdraw = (locks: LockPosition[], amount: number, preferExpired: boolean) => {
+    const order = locks
+      .filter((lock) => lock.amount > 0)
+      .sort((a, b) => Number(b.expired === preferExpired) - Number(a.expired === preferExpired) || a.unlockTime - b.unlockTime);
+    let remaining = amount;
+    for (const lock of order) {
+      if (remaining <= 0) break;
+      const taken = Math.min(lock.amount, remaining);
+      lock.amount -= taken;
+      remaining -= taken;
+    }
+  };
+
+  for (const event of events) {
+    const key = `${event.user_address}-${event.asset}`;
+    let locks = locksByPair.get(key);
+    if (!locks) {
+      locks = [];
+      locksByPair.set(key, locks);
+    }
+    locks.forEach((lock) => settleExpiry(lock, event.block_timestamp));
+
+    switch (event.event_type) {
+      case "locked":
+        locks.push({
+          id: `${event.tx_hash}-${event.log_index}`,
+          asset: event.asset,
+          amount: event.amount,
+          unlockTime: event.unlock_time || 0,
+          lockedAt: event.block_timestamp,
+          expired: false,
+        });
+        break;
+      case "extended": {
+        const target = locks
+          .filter((lock) => lock.amount > 0)
+          .reduce<LockPosition | null>((latest, lock) => (!latest || lock.unlockTime > latest.unlockTime ? lock : latest), null);
+        if (target) {
+          target.unlockTime = event.unlock_time || target.unlockTime;
+          target.lockedAt = event.block_timestamp;
+          target.expired = false;
+        }
+        break;
+      }
+      case "early_withdrawal":
+        unlocks.push({ asset: event.asset, amount: event.amount, time: event.block_timestamp });
+        withdraw(locks, event.amount, false);
+        break;
+      case "unlocked":
+        withdraw(locks, event.amount, true);
+        break;
+    }
+  }
+
+  const positions = [...locksByPair.values()].flat();
+  positions.forEach((position) => settleExpiry(position, now));
+  return { positions, unlocks };
+}
+
+// Rebuild each lock from the event history and sort the active ones into duration buckets
+export function bucketLocks(events: LockEventRecord[], now: number = Math.floor(Date.now() / 1000)): LockData {
+  const nusdData = createEmptyAssetData();
+  const snusdData = createEmptyAssetData();
+  const curveLpData = createEmptyCurveLpData();
+
+  const nusd = UNDERLYINGS.nusd.address.toLowerCase();
+  const snusd = UNDERLYINGS.snusd.address.toLowerCase();
+  const curveLp = NEUTRL_CONTRACTS.curvePool.toLowerCase();
+
+  const getAssetData = (asset: string) =>
+    asset === nusd ? nusdData
+      : asset === snusd ? snusdData
+      : asset === curveLp ? curveLpData
+      : null;
+
+  const { positions, unlocks } = replayLockEvents(events, now);
+
+  for (const position of positions) {
+    // Skip expired and fully withdrawn locks
+    if (position.unlockTime <= now || position.amount <= 0) continue;
+
+    const assetData = getAssetData(position.asset);
+    if (!assetData) continue;
+
+    assetData.totalLocked += position.amount;
+    const durationDays = Math.round((position.unlockTime - position.lockedAt) / 86400);
+    const bucketKey = getLockBucket(position.asset, durationDays);
+    const bucket = bucketKey && (assetData.buckets as Record<string, LockBucket>)[bucketKey];
+    if (bucket) {
+      bucket.count++;
+      bucket.amount += position.amount;
+    }
+  }
+
+  const windowStart = now - RECENTLY_UNLOCKED_DAYS * 86400;
+  for (const unlock of unlocks) {
+    if (unlock.time <= windowStart || unlock.time > now) continue;
+    const assetData = getAssetData(unlock.asset);
+    if (!assetData) continue;
+    assetData.recentlyUnlocked.count++;
+    assetData.recentlyUnlocked.amount += unlock.amount;
+  }
+
+  return {
+    nusd: nusdData,
+    snusd: snusdData,
+    curveLp: curveLpData,
+  };
+}
+
+// Active lock buckets, optionally for a single wallet. With Supabase configured the
+// indexer is caught up first and events are read from the lock_events table;
+// otherwise, or when the indexer failed before storing anything, every log is paged
+// live from Etherscan.
+// Pass `atBlock` to only replay events up to that block and bucket as of its timestamp.
+export async function getLockData(user?: string, atBlock?: BlockRef): Promise<LockData | null> {
+  try {
+    const now = atBlock?.timestamp ?? Math.floor(Date.now() / 1000);
+
+    if (isSupabaseConfigured) {
+      const sync = await indexLockEvents();
+      if (sync.success || sync.lastBlock !== null) {
+        if (!sync.success) {
+          console.error("Lock indexer failed, reading last indexed state:", sync.error);
+        }
+        const events = await getLockEvents(user, atBlock?.number);
+        return events ? bucketLocks(events, now) : null;
+      }
+      // An empty store would read as "nothing locked"
+      console.error("Lock indexer failed with nothing indexed, fetching logs live:", sync.error);
+    }
+
+    const logs = await fetchLockLogs(0, user, atBlock?.number);
+    return logs ? bucketLocks(logs.events, now) : null;
+  } catch (error) {
+    console.error("Error fetching lock data:", error);
+    return null;
+  }
+}
@@ -0,0 +1,184 @@
+import { CHAIN_ID, PENDLE_API_BASE } from "./constants";
+import {
+  PENDLE_MARKETS,
+  UNDERLYINGS,
+  UnderlyingKey,
+  PendleMarketConfig,
+  getMarketsForUnderlying,
+  isMarketMatured,
+} from "./markets";
+import type { PendleMarketRecord } from "./supabase";
+
+// "registered" = already in PENDLE_MARKETS, "new" = found on Pendle but not in the registry,
+// "matured" = expiry has passed
+export type DiscoveryStatus = "registered" | "new" | "matured";
+
+export interface DiscoveredMarket {
+  address: string;
+  name: string;
+  underlying: UnderlyingKey;
+  expiry: string;
+  sy: string;
+  pt: string;
+  yt: string;
+  status: DiscoveryStatus;
+  approved: boolean;
+  pointsMultiplier: number | null; // Set on approval, defaults to the asset's latest registered market
+}
+
+interface PendleActiveMarket {
+  name: string;
+  address: string;
+  expiry: string;
+  pt: string;
+  yt: string;
+  sy: string;
+  underlyingAsset: string;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Pendle returns token ids as "<chainId>-<address>"
+function stripChainPrefix(id: string): string {
+  return id.includes("-") ? id.split("-")[1].toLowerCase() : id.toLowerCase();
+}
+
+function findUnderlying(address: string): UnderlyingKey | null {
+  const match = (Object.keys(UNDERLYINGS) as UnderlyingKey[]).find(
+    (key) => UNDERLYINGS[key].address.toLowerCase() === address.toLowerCase()
+  );
+  return match || null;
+}
+
+export function isRegisteredMarket(address: string): boolean {
+  return PENDLE_MARKETS.some((m) => m.market.toLowerCase() === address.toLowerCase());
+}
+
+export function classifyMarket(address: string, expiry: string, now: number = Date.now()): DiscoveryStatus {
+  if (isMarketMatured({ expiry }, now)) return "matured";
+  return isRegisteredMarket(address) ? "registered" : "new";
+}
+
+// Fetch every active Pendle market on chain 1
+export async function fetchActiveMarkets(): Promise<PendleActiveMarket[]> {
+  const response = await fetch(`${PENDLE_API_BASE}/core/v1/${CHAIN_ID}/markets/active`, {
+    headers: { "Content-Type": "application/json" },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Pendle API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.markets || [];
+}
+
+// Pick out NUSD/sNUSD markets from the active list and flag new or matured ones.
+// Registered markets that dropped off the active list are reported as matured.
+export async function discoverNeutrlMarkets(): Promise<DiscoveredMarket[]> {
+  const activeMarkets = await fetchActiveMarkets();
+  const now = Date.now();
+
+  const discovered: DiscoveredMarket[] = [];
+  for (const m of activeMarkets) {
+    const underlying = findUnderlying(stripChainPrefix(m.underlyingAsset));
+    if (!underlying) continue;
+
+    const address = m.address.toLowerCase();
+    discovered.push({
+      address,
+      name: m.name,
+      underlying,
+      expiry: m.expiry,
+      sy: stripChainPrefix(m.sy),
+      pt: stripChainPrefix(m.pt),
+      yt: stripChainPrefix(m.yt),
+      status: classifyMarket(address, m.expiry, now),
+      approved: isRegisteredMarket(address),
+      pointsMultiplier: null,
+    });
+  }
+
+  for (const m of PENDLE_MARKETS) {
+    if (discovered.some((d) => d.address === m.market.toLowerCase())) continue;
+    discovered.push({
+      address: m.market.toLowerCase(),
+      name: UNDERLYINGS[m.underlying].symbol,
+      underlying: m.underlying,
+      expiry: m.expiry,
+      sy: m.sy,
+      pt: m.pt,
+      yt: m.yt,
+      status: classifyMarket(m.market, m.expiry, now),
+      approved: true,
+      pointsMultiplier: m.pointsMultiplier,
+    });
+  }
+
+  return discovered.sort((a, b) => new Date(a.expiry).getTime() - new Date(b.expiry).getTime());
+}
+
+// Stored records keep their approval, but status is re-derived so stale "new" rows mature on time
+export function fromPendleMarketRecord(record: PendleMarketRecord): DiscoveredMarket {
+  return {
+    address: record.address,
+    name: record.name,
+    underlying: record.underlying,
+    expiry: record.expiry,
+    sy: record.sy,
+    pt: record.pt,
+    yt: record.yt,
+    status: classifyMarket(record.address, record.expiry),
+    approved: record.approved,
+    pointsMultiplier: record.points_multiplier,
+  };
+}
+
+// Registry key for a discovered market, e.g. "nusd-25jun26". The day keeps two expiries in
+// the same month apart; a key already taken (registry keys included) gets an address suffix.
+export function buildMarketKey(
+  underlying: UnderlyingKey,
+  expiry: string,
+  address: string,
+  taken: Set<string> = new Set(PENDLE_MARKETS.map((m) => m.key))
+): string {
+  const date = new Date(expiry);
+  const year = String(date.getUTCFullYear()).slice(-2);
+  const key = `${underlying}-${date.getUTCDate()}${MONTHS[date.getUTCMonth()]}${year}`;
+  return taken.has(key) ? `${key}-${address.toLowerCase().replace(/^0x/, "").slice(0, 6)}` : key;
+}
+
+// Turn a discovered market into a registry-shaped config so the TVL route and
+// table can treat it like any other market. Unapproved markets stay pending.
+export function toMarketConfig(market: DiscoveredMarket, taken?: Set<string>): PendleMarketConfig {
+  const date = new Date(market.expiry);
+  const month = MONTHS[date.getUTCMonth()];
+  const latest = getMarketsForUnderlying(market.underlying).slice(-1)[0];
+  return {
+    key: buildMarketKey(market.underlying, market.expiry, market.address, taken),
+    underlying: market.underlying,
+    label: `${month[0].toUpperCase()}${month.slice(1)} ${date.getUTCDate()}`,
+    expiry: market.expiry,
+    market: market.address,
+    sy: market.sy,
+    pt: market.pt,
+    yt: market.yt,
+    pointsMultiplier: market.pointsMultiplier ?? latest?.pointsMultiplier ?? 0,
+    feeSplit: latest?.feeSplit ?? { pendleFee: 0.05, lpExcluded: 0.2 },
+    pendingApproval: !market.approved,
+  };
+}
+
+// Discovered markets that are not in the static registry: unapproved ones until they mature,
+// approved ones for good, so they show as matured like registry markets do
+export function getTrackedMarkets(markets: DiscoveredMarket[]): PendleMarketConfig[] {
+  const taken = new Set(PENDLE_MARKETS.map((m) => m.key));
+  return markets
+    .filter((m) => !isRegisteredMarket(m.address) && (m.status === "new" || m.approved))
+    .map((m) => {
+      const config = toMarketConfig(m, taken);
+      taken.add(config.key);
+      return config;
+    });
+}
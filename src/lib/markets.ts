@@ -0,0 +1,105 @@
+// Single source of truth for Neutrl contracts and Pendle markets.
+// Adding a new maturity means adding one entry to PENDLE_MARKETS below;
+// the TVL route, calculator cards, TVL table and footer are all built from it.
+
+export type UnderlyingKey = "nusd" | "snusd";
+
+export interface UnderlyingConfig {
+  key: UnderlyingKey;
+  symbol: string;
+  address: string;
+  hasUnderlyingYield: boolean;
+}
+
+export interface MarketFeeSplit {
+  pendleFee: number;   // Share of YT points taken by Pendle (0.05 = 5%)
+  lpExcluded: number;  // Share of LP SY portion that earns no points (0.2 = 20%)
+}
+
+export interface PendleMarketConfig {
+  key: string;          // Stable id used in row ids and API payloads, e.g. "nusd-feb26"
+  underlying: UnderlyingKey;
+  label: string;        // Short expiry label, e.g. "Feb 26"
+  expiry: string;       // ISO date of market maturity
+  market: string;
+  sy: string;
+  pt: string;
+  yt: string;
+  pointsMultiplier: number;
+  feeSplit: MarketFeeSplit;
+  pendingApproval?: boolean; // Discovered markets are shown but not counted until approved
+}
+
+export const UNDERLYINGS: Record<UnderlyingKey, UnderlyingConfig> = {
+  nusd: {
+    key: "nusd",
+    symbol: "NUSD",
+    address: "0xe556aba6fe6036275ec1f87eda296be72c811bce",
+    hasUnderlyingYield: false,
+  },
+  snusd: {
+    key: "snusd",
+    symbol: "sNUSD",
+    address: "0x08efcc2f3e61185d0ea7f8830b3fec9bfa2ee313",
+    hasUnderlyingYield: true,
+  },
+};
+
+const DEFAULT_FEE_SPLIT: MarketFeeSplit = { pendleFee: 0.05, lpExcluded: 0.2 };
+
+export const PENDLE_MARKETS: PendleMarketConfig[] = [
+  {
+    key: "nusd-feb26",
+    underlying: "nusd",
+    label: "Feb 26",
+    expiry: "2026-02-26T00:00:00.000Z",
+    market: "0x6d520a943a4da0784917a2e71defe95248a1daa1",
+    sy: "0x29ac34026c369d21fe3b2c7735ec986e2880b347",      // SY-NUSD
+    pt: "0x215a6a2a0d1c563d0cb55ebd8d126f3bc0b92cf2",      // PT-NUSD-26FEB2026
+    yt: "0x38fdf2dbaae0e1e42499a4c6dfecae3b5cb35c59",      // YT-NUSD-26FEB2026
+    pointsMultiplier: 50,
+    feeSplit: DEFAULT_FEE_SPLIT,
+  },
+  {
+    key: "snusd-mar26",
+    underlying: "snusd",
+    label: "Mar 5",
+    expiry: "2026-03-05T00:00:00.000Z",
+    market: "0x6d8c4de7071d5aee27fc3a810764e62a4a00ceb9",
+    sy: "0x10c5e7711eaddc1b6b64e40ef1976fc462666409",      // SY-sNUSD
+    pt: "0x54bf2659b5cdfd86b75920e93c0844c0364f5166",      // PT-sNUSD-5MAR2026
+    yt: "0x08903411e7a3eb500e30aac3bdd44775055b8c00",      // YT-sNUSD-5MAR2026
+    pointsMultiplier: 25,
+    feeSplit: DEFAULT_FEE_SPLIT,
+  },
+];
+
+// Non-Pendle contracts that feed the TVL table
+export const NEUTRL_CONTRACTS = {
+  lock: "0x99161BA892ECae335616624c84FAA418F64FF9A6",
+  upnusd: "0xd852a101B7C6e0C647C8418A763394A37Dd72bCa",   // upNUSD (K3 protocol)
+  curvePool: "0x7E19F0253A564e026C63eeAA9338d6DBddeF3b09", // Curve NUSD-USDC pool (also the LP token)
+  usdc: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+};
+
+export function getMarket(key: string): PendleMarketConfig | undefined {
+  return PENDLE_MARKETS.find((m) => m.key === key);
+}
+
+// A market has matured once its expiry passes: YT stops accruing and PT is redeemable
+export function isMarketMatured(market: Pick<PendleMarketConfig, "expiry">, now: number = Date.now()): boolean {
+  return new Date(market.expiry).getTime() <= now;
+}
+
+export function getMarketsForUnderlying(underlying: UnderlyingKey): PendleMarketConfig[] {
+  return PENDLE_MARKETS.filter((m) => m.underlying === underlying);
+}
+
+// Display name used by the calculator cards, e.g. "NUSD Feb 26"
+export function getMarketName(market: PendleMarketConfig): string {
+  return `${UNDERLYINGS[market.underlying].symbol} ${market.label}`;
+}
+
+export function getPendleUrl(market: PendleMarketConfig): string {
+  return `https://app.pendle.finance/trade/markets/${market.market}/swap?view=yt&chain=ethereum`;
+}
@@ -0,0 +1,124 @@
+// Monte Carlo airdrop valuation: instead of one FDV, airdrop % and growth projection, each
+// trial draws them (and the TGE date) from distributions, values the position's points at
+// the resulting point price and records the ROI. Pure and seeded, so a run is repeatable.
+
+export interface AirdropDistributions {
+  fdvMedian: number;        // USD; FDV is log-normal around it
+  fdvSigma: number;         // Standard deviation of ln(FDV)
+  airdropPercentMin: number; // Uniform range, % of supply
+  airdropPercentMax: number;
+  tgeDaysMin: number;       // Uniform range of days from now to TGE
+  tgeDaysMax: number;
+  growthMean: number;       // Points growth, % per day (normal, floored at MIN_GROWTH)
+  growthSd: number;
+}
+
+export interface SimulatedPosition {
+  costUsd: number;
+  dailyPoints: number;  // Points per day the position earns
+  daysToExpiry: number; // Points accrue until expiry or TGE, whichever comes first
+  yieldValue: number;   // USD the position returns besides points
+  currentPoints: number; // Season points issued so far
+}
+
+export interface SimulationSummary {
+  trials: number;    // Trials with a finite ROI
+  discarded: number; // Trials dropped for a non-finite ROI
+  probabilityOfProfit: number;
+  meanRoi: number;
+  percentiles: Record<"p5" | "p25" | "p50" | "p75" | "p95", number>;
+  histogram: { roi: number; count: number }[]; // Bucket midpoints
+}
+
+const HISTOGRAM_BINS = 30;
+
+// Lowest daily growth a draw can take: at -100% or below the season total would hit zero
+// (or turn negative) and the point value blow up
+export const MIN_GROWTH = -99;
+
+// Mulberry32: small, fast, good enough for sampling
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal via Box-Muller
+function normal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+const uniform = (random: () => number, min: number, max: number) => min + (max - min) * random();
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+// ROI of one trial; the season's points compound at the drawn growth rate until TGE
+function simulateTrial(position: SimulatedPosition, dist: AirdropDistributions, random: () => number): number {
+  const fdv = dist.fdvMedian * Math.exp(dist.fdvSigma * normal(random));
+  const airdropPercent = uniform(random, dist.airdropPercentMin, dist.airdropPercentMax);
+  const daysToTge = Math.max(0, uniform(random, dist.tgeDaysMin, dist.tgeDaysMax));
+  const growth = Math.max(MIN_GROWTH, dist.growthMean + dist.growthSd * normal(random));
+
+  const seasonPoints = position.currentPoints * Math.pow(1 + growth / 100, daysToTge);
+  const pointValue = seasonPoints > 0 ? (fdv * airdropPercent / 100) / seasonPoints : 0;
+  const pointsEarned = position.dailyPoints * Math.min(position.daysToExpiry, daysToTge);
+  const totalValue = position.yieldValue + pointsEarned * pointValue;
+  return (totalValue - position.costUsd) / position.costUsd;
+}
+
+export function runAirdropSimulation(
+  position: SimulatedPosition,
+  distributions: AirdropDistributions,
+  trials: number,
+  seed: number = 1
+): SimulationSummary {
+  const random = createRandom(seed);
+  const rois: number[] = [];
+  let discarded = 0;
+  if (position.costUsd > 0) {
+    for (let i = 0; i < trials; i++) {
+      const roi = simulateTrial(position, distributions, random);
+      if (Number.isFinite(roi)) rois.push(roi);
+      else discarded++;
+    }
+  }
+  rois.sort((a, b) => a - b);
+
+  // Histogram over p1-p99 so a few extreme draws don't flatten it; outliers go to the end bins
+  const low = percentile(rois, 0.01);
+  const high = percentile(rois, 0.99);
+  const width = high > low ? (high - low) / HISTOGRAM_BINS : 1;
+  const counts = new Array(HISTOGRAM_BINS).fill(0);
+  rois.forEach((roi) => {
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor((roi - low) / width)));
+    counts[bin]++;
+  });
+
+  return {
+    trials: rois.length,
+    discarded,
+    probabilityOfProfit: rois.length > 0 ? rois.filter((roi) => roi > 0).length / rois.length : 0,
+    meanRoi: rois.length > 0 ? rois.reduce((sum, roi) => sum + roi, 0) / rois.length : 0,
+    percentiles: {
+      p5: percentile(rois, 0.05),
+      p25: percentile(rois, 0.25),
+      p50: percentile(rois, 0.5),
+      p75: percentile(rois, 0.75),
+      p95: percentile(rois, 0.95),
+    },
+    histogram: rois.length > 0
+      ? counts.map((count, i) => ({ roi: low + width * (i + 0.5), count }))
+      : [],
+  };
+}
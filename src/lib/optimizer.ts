@@ -0,0 +1,109 @@
+// Budget allocation across points positions (YT, LP, hold, lock, Curve LP). Each option
+// reports the points and USD it returns for a dollar amount; the budget is handed out in
+// equal steps, each to the option with the best marginal value. That is optimal while every
+// option's value is concave in the amount - linear for holding and locking, flattening for
+// YT as price impact grows.
+
+export interface PositionOutcome {
+  points: number;   // Points earned over the horizon
+  returned: number; // USD back at the end: principal left plus yield
+}
+
+export interface AllocationOption {
+  id: string;
+  name: string;
+  evaluate: (amount: number) => PositionOutcome;
+}
+
+export interface Allocation extends PositionOutcome {
+  id: string;
+  name: string;
+  amount: number;
+  pointsValue: number;
+  totalValue: number; // returned + pointsValue
+  roi: number;        // (totalValue - amount) / amount
+}
+
+export interface AllocationPlan {
+  allocations: Allocation[]; // Options that received part of the budget, largest first
+  total: Allocation;
+}
+
+const DEFAULT_STEPS = 50;
+
+const outcomeValue = (outcome: PositionOutcome, pointValue: number) => outcome.returned + outcome.points * pointValue;
+
+function toAllocation(id: string, name: string, amount: number, outcome: PositionOutcome, pointValue: number): Allocation {
+  const pointsValue = outcome.points * pointValue;
+  const totalValue = outcome.returned + pointsValue;
+  return {
+    id,
+    name,
+    amount,
+    ...outcome,
+    pointsValue,
+    totalValue,
+    roi: amount > 0 ? (totalValue - amount) / amount : 0,
+  };
+}
+
+// Split `budget` across the options to maximize returned USD plus points × pointValue
+export function optimizeAllocation(
+  options: AllocationOption[],
+  budget: number,
+  pointValue: number,
+  steps: number = DEFAULT_STEPS
+): AllocationPlan {
+  const amounts = new Map(options.map((option) => [option.id, 0]));
+  const step = budget / steps;
+
+  if (budget > 0 && options.length > 0) {
+    for (let i = 0; i < steps; i++) {
+      let best: AllocationOption | null = null;
+      let bestGain = -Infinity;
+      options.forEach((option) => {
+        const current = amounts.get(option.id)!;
+        const gain = outcomeValue(option.evaluate(current + step), pointValue)
+          - outcomeValue(option.evaluate(current), pointValue);
+        if (gain > bestGain) {
+          bestGain = gain;
+          best = option;
+        }
+      });
+      const chosen = best as AllocationOption | null;
+      if (!chosen) break;
+      amounts.set(chosen.id, amounts.get(chosen.id)! + step);
+    }
+  }
+
+  const allocations = options
+    .filter((option) => amounts.get(option.id)! > 0)
+    .map((option) => {
+      const amount = amounts.get(option.id)!;
+      return toAllocation(option.id, option.name, amount, option.evaluate(amount), pointValue);
+    })
+    .sort((a, b) => b.amount - a.amount);
+
+  const sum = (key: "amount" | "points" | "returned") => allocations.reduce((total, a) => total + a[key], 0);
+  const total = toAllocation("total", "Total", sum("amount"), { points: sum("points"), returned: sum("returned") }, pointValue);
+
+  return { allocations, total };
+}
+
+// Piecewise-linear interpolation through (size, received) quotes, starting at (0, 0).
+// Beyond the largest quote the last average rate is held.
+export function interpolateQuotes(quotes: { size: number; received: number }[]): (size: number) => number {
+  const points = [{ size: 0, received: 0 }, ...quotes.filter((q) => q.size > 0).sort((a, b) => a.size - b.size)];
+  return (size: number) => {
+    if (size <= 0 || points.length < 2) return 0;
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1];
+      const next = points[i];
+      if (size <= next.size) {
+        return prev.received + ((size - prev.size) / (next.size - prev.size)) * (next.received - prev.received);
+      }
+    }
+    const last = points[points.length - 1];
+    return (size / last.size) * last.received;
+  };
+}
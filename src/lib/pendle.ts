@@ -0,0 +1,122 @@
+// Pendle API calls shared by the markets, swap and swap ladder routes
+
+import { PENDLE_API_BASE, CHAIN_ID } from "./constants";
+import { LpZapResponse, MarketData, NormalizedSwapQuote, SwapQuoteRequest, SwapQuoteResponse, SwapQuoteType } from "./types";
+
+export async function fetchPendleMarket(address: string): Promise<MarketData> {
+  const response = await fetch(
+    `${PENDLE_API_BASE}/core/v1/${CHAIN_ID}/markets/${address}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+      },
+      cache: "no-store",
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Pendle API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Limit-order API order types
+const MARKET_ORDER_TYPES = {
+  pt: 0,        // Token for PT
+  yt: 2,        // Token for YT
+  "yt-sell": 3, // YT for token
+} as const;
+
+// Receiver for quote-only zaps; nothing is executed
+const QUOTE_RECEIVER = "0x000000000000000000000000000000000000dEaD";
+
+async function fetchMarketOrderQuote(market: string, netFromTaker: string, type: number): Promise<SwapQuoteResponse> {
+  const swapRequest: SwapQuoteRequest = {
+    chainId: CHAIN_ID,
+    market,
+    netFromTaker,
+    type,
+    cappedAmountToMarket: "9999999999999999999999999",
+  };
+
+  const response = await fetch(
+    `${PENDLE_API_BASE}/limit-order/v2/limit-order/market-order`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(swapRequest),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Pendle API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Market-order quote for buying YT with `netFromTaker` underlying (wei string)
+export function fetchYtQuote(market: string, netFromTaker: string): Promise<SwapQuoteResponse> {
+  return fetchMarketOrderQuote(market, netFromTaker, MARKET_ORDER_TYPES.yt);
+}
+
+// Zap quote for adding single-sided liquidity with `amountIn` of `tokenIn` (wei string)
+export async function fetchLpZapQuote(market: string, tokenIn: string, amountIn: string): Promise<LpZapResponse> {
+  const params = new URLSearchParams({
+    receiver: QUOTE_RECEIVER,
+    slippage: "0.005",
+    enableAggregator: "false",
+    tokenIn,
+    amountIn,
+    zpi: "false",
+  });
+
+  const response = await fetch(
+    `${PENDLE_API_BASE}/core/v1/sdk/${CHAIN_ID}/markets/${market}/add-liquidity?${params}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Pendle API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Quote for buying a position with `netFromTaker` of the market's underlying (`tokenIn`),
+// or for selling `netFromTaker` YT, normalized across the market-order and zap endpoints
+export async function fetchSwapQuote(
+  type: SwapQuoteType,
+  market: string,
+  tokenIn: string,
+  netFromTaker: string
+): Promise<NormalizedSwapQuote> {
+  if (type === "lp") {
+    const zap = await fetchLpZapQuote(market, tokenIn, netFromTaker);
+    return {
+      type,
+      market,
+      amountIn: netFromTaker,
+      amountOut: zap.data.amountLpOut,
+      fee: "0",
+      priceImpact: zap.data.priceImpact ?? null,
+    };
+  }
+
+  const quote = await fetchMarketOrderQuote(market, netFromTaker, MARKET_ORDER_TYPES[type]);
+  return {
+    type,
+    market,
+    amountIn: quote.totalTrade.netFromTaker,
+    amountOut: quote.totalTrade.netToTaker,
+    fee: quote.totalTrade.fee,
+    priceImpact: null,
+  };
+}
@@ -0,0 +1,336 @@
+// Season points totals from the Neutrl points API (a Sentio persisted query), tried
+// source by source: a plain HTTP request, then a headless browser (the API sits behind
+// bot protection that sometimes rejects plain requests), then the last live snapshot.
+// The result says which source served it. Totals are returned per chain season program
+// (Ethereum and Plasma) and combined; the top-level totals are Ethereum's.
+
+import { getLatestLiveSnapshot } from "./supabase";
+import { cached } from "./cache";
+
+export const POINTS_API_URL =
+  "https://app.neutrl.fi/api/sentio?hash=e449740b504a998538eabad36695f9fc8f0cc9d8c0552cfeb66939978d2547ff&variables=%7B%22userId%22%3A%22ethereum-1-undefined%22%2C%22seasonProgramIds%22%3A%5B%22ethereum-1-seasonProgram-Season_Neutrl_Origin%22%2C%22plasma-9745-seasonProgram-Season_Neutrl_Origin%22%5D%7D";
+
+export type PointsChain = "ethereum" | "plasma";
+
+// Season program per chain, as requested by POINTS_API_URL
+export const SEASON_PROGRAM_IDS: Record<PointsChain, string> = {
+  ethereum: "ethereum-1-seasonProgram-Season_Neutrl_Origin",
+  plasma: "plasma-9745-seasonProgram-Season_Neutrl_Origin",
+};
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+// Points totals are cached for 1 hour, then served stale for up to 6 more while they refresh
+const CACHE_TTL = 60 * 60 * 1000;
+const CACHE_STALE = 6 * 60 * 60 * 1000;
+
+// Retry configuration for 429 and 5xx errors
+const MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY = 2000; // 2 seconds
+const HTTP_TIMEOUT = 15000;
+
+export type PointsSourceName = "http" | "puppeteer" | "snapshot";
+
+export interface ChainPoints {
+  totalPoints: number;
+  totalPointsFormatted: string;
+  participantCount: number;
+  upNusdMultiplier: number | null; // Not stored in snapshots
+}
+
+// Ethereum always, Plasma when the API returns it
+export type SeasonChains = { ethereum: ChainPoints } & Partial<Record<PointsChain, ChainPoints>>;
+
+export interface PointsData extends ChainPoints {
+  timestamp: string; // When the totals were read (snapshot capture time for "snapshot")
+  chains: SeasonChains;
+  combined: {
+    totalPoints: number;
+    totalPointsFormatted: string;
+    participantCount: number; // Sum per chain, so a wallet active on both counts twice
+  };
+}
+
+export interface PointsResult extends PointsData {
+  source: PointsSourceName;
+  sourceErrors: Partial<Record<PointsSourceName, string>>; // Sources tried before this one
+}
+
+interface SeasonProgramState {
+  __typename: string;
+  id: string;
+  participantCount: string;
+  totalPoints: string;
+  upNusdMultiplier: string;
+}
+
+interface SeasonProgram {
+  __typename: string;
+  endBlock: string;
+  id: string;
+  startBlock: string;
+  state: SeasonProgramState;
+}
+
+interface NeutrlAPIResponse {
+  data?: {
+    seasonPrograms?: SeasonProgram[];
+  };
+}
+
+export function formatLargeNumber(num: number): string {
+  if (num >= 1e12) return (num / 1e12).toFixed(2) + "T";
+  if (num >= 1e9) return (num / 1e9).toFixed(2) + "B";
+  if (num >= 1e6) return (num / 1e6).toFixed(2) + "M";
+  if (num >= 1e3) return (num / 1e3).toFixed(2) + "K";
+  return num.toFixed(2);
+}
+
+// Helper function to delay execution
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function parseChainPoints(state: SeasonProgramState): ChainPoints {
+  const totalPoints = parseFloat(state.totalPoints);
+  return {
+    totalPoints,
+    totalPointsFormatted: formatLargeNumber(totalPoints),
+    participantCount: parseInt(state.participantCount),
+    upNusdMultiplier: parseInt(state.upNusdMultiplier),
+  };
+}
+
+// Per-chain totals plus the combined supply; the top-level fields are Ethereum's
+function withCombined(timestamp: string, chains: SeasonChains): PointsData {
+  const all = Object.values(chains);
+  const totalPoints = all.reduce((sum, chain) => sum + chain.totalPoints, 0);
+  return {
+    timestamp,
+    ...chains.ethereum,
+    chains,
+    combined: {
+      totalPoints,
+      totalPointsFormatted: formatLargeNumber(totalPoints),
+      participantCount: all.reduce((sum, chain) => sum + chain.participantCount, 0),
+    },
+  };
+}
+
+function parsePointsResponse(data: NeutrlAPIResponse): PointsData {
+  const findProgram = (chain: PointsChain) =>
+    data.data?.seasonPrograms?.find((p) => p.id === SEASON_PROGRAM_IDS[chain]);
+
+  const ethereumProgram = findProgram("ethereum");
+  if (!ethereumProgram) {
+    throw new Error("Ethereum season program not found");
+  }
+
+  const chains: SeasonChains = { ethereum: parseChainPoints(ethereumProgram.state) };
+  const plasmaProgram = findProgram("plasma");
+  if (plasmaProgram) {
+    chains.plasma = parseChainPoints(plasmaProgram.state);
+  } else {
+    console.warn("Plasma season program not found, combined totals are Ethereum only");
+  }
+
+  return withCombined(new Date().toISOString(), chains);
+}
+
+async function fetchWithHttp(retryCount = 0): Promise<PointsData> {
+  let response: Response;
+  try {
+    response = await fetch(POINTS_API_URL, {
+      headers: {
+        Accept: "application/json",
+        "User-Agent": USER_AGENT,
+        Referer: "https://app.neutrl.fi/",
+      },
+      cache: "no-store",
+      signal: AbortSignal.timeout(HTTP_TIMEOUT),
+    });
+  } catch (error) {
+    // Network errors and timeouts
+    if (retryCount < MAX_RETRIES) {
+      const retryDelay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
+      console.log(`Points request failed (${error instanceof Error ? error.message : error}). Retrying in ${retryDelay}ms... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
+      await delay(retryDelay);
+      return fetchWithHttp(retryCount + 1);
+    }
+    throw error;
+  }
+
+  if (response.status === 429 || response.status >= 500) {
+    if (retryCount < MAX_RETRIES) {
+      const retryDelay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
+      console.log(`Points API returned ${response.status}. Retrying in ${retryDelay}ms... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
+      await delay(retryDelay);
+      return fetchWithHttp(retryCount + 1);
+    }
+    throw new Error(`HTTP error! Status: ${response.status} (after ${MAX_RETRIES} retries)`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! Status: ${response.status}`);
+  }
+
+  // A bot challenge comes back as an HTML page with status 200
+  const contentType = response.headers.get("content-type") || "";
+  if (!contentType.includes("json")) {
+    throw new Error(`Unexpected content type: ${contentType || "none"}`);
+  }
+
+  return parsePointsResponse(await response.json());
+}
+
+async function fetchWithPuppeteer(retryCount = 0): Promise<PointsData> {
+  // Dynamic import puppeteer only when needed
+  const puppeteer = await import("puppeteer");
+  const { execSync } = await import("child_process");
+
+  // Determine executable path - check environment variable first
+  let executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
+
+  // If not set, try to find chromium in PATH (for Railway/Nix)
+  if (!executablePath) {
+    try {
+      // Try to find chromium using which command
+      const chromiumPath = execSync("which chromium", { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+      if (chromiumPath) {
+        executablePath = chromiumPath;
+      }
+    } catch (error) {
+      // If which fails, try chromium-browser
+      try {
+        const chromiumPath = execSync("which chromium-browser", { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+        if (chromiumPath) {
+          executablePath = chromiumPath;
+        }
+      } catch (e) {
+        // Let Puppeteer auto-detect if we can't find it
+        console.log("Chromium not found in PATH, using Puppeteer auto-detection");
+      }
+    }
+  }
+
+  const launchOptions: any = {
+    headless: true,
+    args: ["--no-sandbox", "--disable-setuid-sandbox", "--disable-dev-shm-usage"],
+  };
+
+  // Only set executablePath if we found one
+  if (executablePath) {
+    launchOptions.executablePath = executablePath;
+    console.log(`Using Chromium at: ${executablePath}`);
+  }
+
+  const browser = await puppeteer.default.launch(launchOptions);
+
+  try {
+    const page = await browser.newPage();
+    await page.setViewport({ width: 1920, height: 1080 });
+    await page.setUserAgent(USER_AGENT);
+
+    const response = await page.goto(POINTS_API_URL, {
+      waitUntil: "networkidle2",
+      timeout: 30000,
+    });
+
+    const status = response?.status();
+
+    // Handle 404 - upstream API endpoint may have changed
+    if (status === 404) {
+      await browser.close();
+      throw new Error(`Upstream API returned 404 - endpoint may have changed or been removed`);
+    }
+
+    // Handle 429 rate limit with retry
+    if (status === 429) {
+      await browser.close();
+
+      if (retryCount < MAX_RETRIES) {
+        const retryDelay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
+        console.log(`Rate limited (429). Retrying in ${retryDelay}ms... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
+        await delay(retryDelay);
+        return fetchWithPuppeteer(retryCount + 1);
+      }
+
+      throw new Error(`HTTP error! Status: 429 (Rate limited after ${MAX_RETRIES} retries)`);
+    }
+
+    if (!response || !response.ok()) {
+      throw new Error(`HTTP error! Status: ${status}`);
+    }
+
+    return parsePointsResponse(await response.json());
+  } finally {
+    await browser.close();
+  }
+}
+
+// Last recorded totals; the multiplier isn't stored with snapshots, and snapshots
+// captured before per-chain totals were stored only have Ethereum's
+async function fetchFromSnapshot(): Promise<PointsData> {
+  const snapshot = await getLatestLiveSnapshot();
+  if (!snapshot || !(snapshot.summary.s1RewardsIssued > 0)) {
+    throw new Error("No snapshot with a points total");
+  }
+
+  const fromTotals = (totals: { totalPoints: number; participantCount: number }): ChainPoints => ({
+    totalPoints: totals.totalPoints,
+    totalPointsFormatted: formatLargeNumber(totals.totalPoints),
+    participantCount: totals.participantCount,
+    upNusdMultiplier: null,
+  });
+
+  const { summary } = snapshot;
+  const chains: SeasonChains = {
+    ethereum: fromTotals({ totalPoints: summary.s1RewardsIssued, participantCount: summary.participantCount }),
+  };
+  const plasma = summary.pointsByChain?.plasma;
+  if (plasma) chains.plasma = fromTotals(plasma);
+
+  return withCombined(snapshot.captured_at, chains);
+}
+
+const POINTS_SOURCES: { name: PointsSourceName; fetch: () => Promise<PointsData> }[] = [
+  { name: "http", fetch: () => fetchWithHttp() },
+  { name: "puppeteer", fetch: () => fetchWithPuppeteer() },
+  { name: "snapshot", fetch: fetchFromSnapshot },
+];
+
+// Points totals from the first source that answers; throws when none do
+export async function fetchPointsData(): Promise<PointsResult> {
+  const sourceErrors: PointsResult["sourceErrors"] = {};
+
+  for (const source of POINTS_SOURCES) {
+    try {
+      const data = await source.fetch();
+      if (source.name !== "http") {
+        console.warn(`Points served from fallback source "${source.name}"`);
+      }
+      return { ...data, source: source.name, sourceErrors };
+    } catch (error) {
+      console.error(`Points source "${source.name}" failed:`, error);
+      sourceErrors[source.name] = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  throw new Error(
+    "All points sources failed: " +
+      Object.entries(sourceErrors).map(([name, message]) => `${name}: ${message}`).join("; ")
+  );
+}
+
+// fetchPointsData through the shared cache, for /api/points and the live boosts.
+// Snapshot fallbacks aren't cached so the next request tries the points API again.
+// `refresh` skips a cached value of any age, for callers that store the totals.
+export function getCachedPoints({ refresh = false }: { refresh?: boolean } = {}) {
+  return cached("points", fetchPointsData, {
+    ttlMs: CACHE_TTL,
+    staleMs: CACHE_STALE,
+    shouldCache: (data) => data.source !== "snapshot",
+    refresh,
+  });
+}
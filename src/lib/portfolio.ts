@@ -0,0 +1,118 @@
+import { PendleMarketConfig } from "./markets";
+import { TvlCategory, TvlRow, getMarketRowIds } from "./tvlData";
+import { countsTowardTotal, getMarketRowTvls, getRowWeightedTvl, weighTvlData } from "./weighting";
+import type { TvlApiResponse } from "../hooks/useTvlData";
+import type { PortfolioApiResponse } from "../hooks/usePortfolio";
+
+export interface PortfolioRow {
+  row: TvlRow;
+  category: string;
+  tvl: number;
+  weightedTvl: number;
+  dailyPoints: number;
+  share: number; // % of protocol-wide weighted TVL
+  counted: boolean;
+}
+
+export interface PortfolioSummary {
+  rows: PortfolioRow[];
+  totalTvl: number;
+  totalWeightedTvl: number;
+  protocolWeightedTvl: number;
+  share: number;
+}
+
+// Price a wallet's balances into the same row ids the TVL table uses
+export function getWalletRowTvls(
+  portfolio: PortfolioApiResponse,
+  tvlData: TvlApiResponse,
+  markets: PendleMarketConfig[]
+): Record<string, number> {
+  const tvls: Record<string, number> = {};
+
+  markets.forEach((market) => {
+    const balances = portfolio.markets[market.key];
+    const marketData = tvlData.markets?.[market.key];
+    if (!balances || !marketData) return;
+    // The wallet's LP tokens own a pro-rata slice of the market's SY
+    const lpShare = marketData.lpTotalSupply > 0 ? balances.lp / marketData.lpTotalSupply : 0;
+    Object.assign(tvls, getMarketRowTvls(market, {
+      ytTvl: balances.yt * marketData.underlyingPrice,
+      lpSyTvl: lpShare * marketData.lpSyTvl,
+      ptTvl: balances.pt * marketData.ptPrice,
+    }));
+    // The fee share of the wallet's YT earns points for Pendle, not the wallet
+    tvls[getMarketRowIds(market).fee] = 0;
+  });
+
+  const nusdPrice = tvlData.nusd?.underlyingPrice || 1;
+  const snusdPrice = tvlData.snusd?.underlyingPrice || 1;
+  const curveLpPrice = tvlData.curve?.lpPrice || 0;
+
+  tvls["hold-nusd"] = portfolio.balances.nusd * nusdPrice;
+  tvls["hold-snusd"] = portfolio.balances.snusd * snusdPrice;
+  // Assume $1 price for upNUSD, same as /api/tvl
+  tvls["hold-upnusd"] = portfolio.balances.upnusd;
+
+  // Curve LP held in the wallet, plus its slice of the pool's NUSD / USDC (display only)
+  tvls["hold-curve-lp"] = portfolio.balances.curveLp * curveLpPrice;
+  if (tvlData.curve?.lpTotalSupply) {
+    const poolShare = portfolio.balances.curveLp / tvlData.curve.lpTotalSupply;
+    tvls["curve-nusd-breakdown"] = poolShare * tvlData.curve.nusdTvl;
+    tvls["curve-usdc-breakdown"] = poolShare * tvlData.curve.usdcTvl;
+  }
+
+  // Locked positions by duration bucket
+  if (portfolio.locks) {
+    const { nusd, snusd, curveLp } = portfolio.locks;
+    (["3mo", "6mo", "9mo", "12mo"] as const).forEach((bucket) => {
+      tvls[`lock-nusd-${bucket}`] = nusd.buckets[bucket].amount * nusdPrice;
+      tvls[`lock-snusd-${bucket}`] = snusd.buckets[bucket].amount * snusdPrice;
+    });
+    tvls["lock-curve-3mo"] = curveLp.buckets["3mo"].amount * curveLpPrice;
+    tvls["lock-curve-6mo"] = curveLp.buckets["6mo"].amount * curveLpPrice;
+  }
+
+  return tvls;
+}
+
+// Wallet rows with boost, daily points and share of the protocol's total weighted TVL
+export function buildPortfolioSummary(
+  portfolio: PortfolioApiResponse,
+  tvlData: TvlApiResponse,
+  markets: PendleMarketConfig[],
+  categories: TvlCategory[]
+): PortfolioSummary {
+  const walletTvls = getWalletRowTvls(portfolio, tvlData, markets);
+  const protocolWeightedTvl = weighTvlData(tvlData, categories, markets).summary.weightedTvl;
+
+  const rows: PortfolioRow[] = [];
+  categories.forEach((cat) => {
+    cat.rows.forEach((row) => {
+      const tvl = walletTvls[row.id] || 0;
+      if (tvl <= 0) return;
+      const counted = countsTowardTotal(row);
+      const weightedTvl = getRowWeightedTvl(row, tvl);
+      rows.push({
+        row,
+        category: cat.title,
+        tvl,
+        weightedTvl,
+        dailyPoints: counted ? weightedTvl : 0,
+        share: counted && protocolWeightedTvl > 0 ? (weightedTvl / protocolWeightedTvl) * 100 : 0,
+        counted,
+      });
+    });
+  });
+
+  const countedRows = rows.filter((r) => r.counted);
+  const totalWeightedTvl = countedRows.reduce((sum, r) => sum + r.weightedTvl, 0);
+
+  return {
+    rows,
+    totalTvl: countedRows.reduce((sum, r) => sum + r.tvl, 0),
+    totalWeightedTvl,
+    protocolWeightedTvl,
+    share: protocolWeightedTvl > 0 ? (totalWeightedTvl / protocolWeightedTvl) * 100 : 0,
+  };
+}
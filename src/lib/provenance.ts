@@ -0,0 +1,92 @@
+// Where each /api/tvl number came from. A failed read is still returned as a number
+// (0, or $1 for prices) so the table keeps rendering; provenance says which to trust.
+// Fields are keyed by their path in the payload, e.g. "markets.nusd-feb26.ytTotalSupply".
+
+import { PendleMarketConfig } from "./markets";
+import { getMarketRowIds } from "./tvlData";
+
+export type FieldStatus = "live" | "fallback" | "missing";
+
+export interface FieldProvenance {
+  status: FieldStatus;       // live read, substitute from another source/default, or nothing at all
+  source: string;            // "etherscan" | "rpc" | "pendle-api" | "lock-events" | "points-api" | "default"
+  fetchedAt: string | null;  // Null when nothing was fetched
+  critical: boolean;         // Feeds counted weighted TVL; snapshots refuse degraded critical fields
+}
+
+export interface RowProvenance {
+  status: FieldStatus; // Worst status of the fields the row is built from
+  fields: string[];    // Those fields that aren't live
+}
+
+export interface TvlProvenance {
+  fields: Record<string, FieldProvenance>;
+  rows: Record<string, RowProvenance>;
+  degraded: string[]; // Critical fields that aren't live
+}
+
+const STATUS_RANK: Record<FieldStatus, number> = { live: 0, fallback: 1, missing: 2 };
+
+export function worstStatus(statuses: FieldStatus[]): FieldStatus {
+  return statuses.reduce<FieldStatus>((worst, s) => (STATUS_RANK[s] > STATUS_RANK[worst] ? s : worst), "live");
+}
+
+// Payload fields each TVL table row is built from
+export function getRowFields(markets: PendleMarketConfig[]): Record<string, string[]> {
+  const rows: Record<string, string[]> = {};
+  const curveLp = ["curve.nusdBalance", "curve.usdcBalance", "curve.lpTotalSupply", "nusd.underlyingPrice"];
+
+  markets.forEach((m) => {
+    const ids = getMarketRowIds(m);
+    const price = `${m.underlying}.underlyingPrice`;
+    const yt = [`markets.${m.key}.ytTotalSupply`, price];
+    const lp = [`markets.${m.key}.lpSyTvl`, price];
+    rows[ids.yt] = yt;
+    rows[ids.fee] = yt;
+    rows[ids.ytNet] = yt;
+    rows[ids.lp] = lp;
+    rows[ids.lpExcluded] = lp;
+    rows[ids.lpNet] = lp;
+    rows[ids.pt] = [`markets.${m.key}.ptTotalSupply`, `markets.${m.key}.ptPrice`];
+  });
+
+  // Hold = total supply minus what sits in Pendle SYs, the Curve pool and the lock contract
+  (["nusd", "snusd"] as const).forEach((key) => {
+    rows[`hold-${key}`] = [
+      `${key}.totalSupply`,
+      `${key}.underlyingPrice`,
+      "locks",
+      ...markets.filter((m) => m.underlying === key).map((m) => `markets.${m.key}.syUnderlyingBalance`),
+      ...(key === "nusd" ? ["curve.nusdBalance"] : []),
+    ];
+    ["3mo", "6mo", "9mo", "12mo"].forEach((bucket) => {
+      rows[`lock-${key}-${bucket}`] = ["locks", `${key}.underlyingPrice`];
+    });
+  });
+
+  rows["hold-upnusd"] = ["upnusd.totalSupply", "boosts.hold-upnusd"];
+  rows["hold-curve-lp"] = [...curveLp, "locks"];
+  rows["curve-nusd-breakdown"] = ["curve.nusdBalance", "nusd.underlyingPrice"];
+  rows["curve-usdc-breakdown"] = ["curve.usdcBalance"];
+  rows["lock-curve-3mo"] = [...curveLp, "locks"];
+  rows["lock-curve-6mo"] = [...curveLp, "locks"];
+
+  return rows;
+}
+
+export function buildProvenance(fields: Record<string, FieldProvenance>, markets: PendleMarketConfig[]): TvlProvenance {
+  const rows: Record<string, RowProvenance> = {};
+  Object.entries(getRowFields(markets)).forEach(([rowId, rowFields]) => {
+    const notLive = rowFields.filter((f) => fields[f] && fields[f].status !== "live");
+    rows[rowId] = {
+      status: worstStatus(notLive.map((f) => fields[f].status)),
+      fields: notLive,
+    };
+  });
+
+  return {
+    fields,
+    rows,
+    degraded: Object.keys(fields).filter((f) => fields[f].critical && fields[f].status !== "live"),
+  };
+}
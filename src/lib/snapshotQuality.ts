@@ -0,0 +1,108 @@
+// Data-quality checks run before a snapshot is saved. A failed on-chain read comes back
+// as 0 TVL rather than an error, so each new snapshot is compared with the previous good
+// one; suspect snapshots are still stored, but quarantined with the reasons. A missing
+// points total leaves the TVL figures usable, so it is only a warning; points history
+// skips snapshots without one.
+
+import { TvlSnapshot, getPreviousSnapshot } from "./supabase";
+
+export type SnapshotInput = Omit<TvlSnapshot, "id" | "created_at">;
+
+export interface SnapshotQuality {
+  quarantined: boolean;
+  reasons: string[];  // Why the snapshot is quarantined
+  warnings: string[]; // Logged, but the snapshot is kept as good
+  previousCapturedAt: string | null; // Snapshot the checks compared against
+}
+
+// Largest move in total or weighted TVL between consecutive snapshots
+const MAX_TVL_CHANGE = 0.5;
+// Rows at least this large that drop to exactly $0 point to a failed read
+const MIN_ROW_TVL = 10_000;
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString("en-US")}`;
+
+const rowTvls = (snapshot: SnapshotInput) => {
+  const tvls: Record<string, number> = {};
+  snapshot.table_condensed.forEach((cat) => cat.rows.forEach((row) => {
+    tvls[row.id] = row.tvlAmount;
+  }));
+  return tvls;
+};
+
+const sumLocks = (tvls: Record<string, number>) =>
+  Object.entries(tvls).reduce((sum, [id, tvl]) => (id.startsWith("lock-") ? sum + tvl : sum), 0);
+
+// Snapshot from a /api/snapshots request body (capture-snapshot.js format); null if incomplete
+export function parseSnapshotBody(body: Record<string, unknown>): SnapshotInput | null {
+  if (!body.capturedAt || !body.summary || !body.tableCondensed) return null;
+
+  const capturedAt = String(body.capturedAt);
+  return {
+    captured_at: capturedAt,
+    captured_at_unix: Number(body.capturedAtUnix) || Math.floor(new Date(capturedAt).getTime() / 1000),
+    block_number: (body.blockNumber as number | null) ?? null,
+    block_timestamp: (body.blockTimestamp as number | null) ?? null,
+    backfilled: body.backfilled === true,
+    summary: body.summary as TvlSnapshot["summary"],
+    table_condensed: body.tableCondensed as TvlSnapshot["table_condensed"],
+  };
+}
+
+// Reasons a snapshot looks wrong, compared with the previous good snapshot (if any),
+// and warnings that don't quarantine it
+export function checkSnapshot(snapshot: SnapshotInput, previous: TvlSnapshot | null): { reasons: string[]; warnings: string[] } {
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+  const { summary } = snapshot;
+
+  if (!(summary.totalTvl > 0)) reasons.push("Total TVL is zero");
+  if (!(summary.weightedTvl > 0)) reasons.push("Weighted TVL is zero");
+  // Backfilled snapshots have no points total by design
+  if (!snapshot.backfilled && !(summary.s1RewardsIssued > 0)) warnings.push("No points total");
+
+  if (!previous) return { reasons, warnings };
+
+  ([["Total TVL", summary.totalTvl, previous.summary.totalTvl],
+    ["Weighted TVL", summary.weightedTvl, previous.summary.weightedTvl]] as const).forEach(([label, current, prev]) => {
+    if (prev > 0 && current > 0 && Math.abs(current / prev - 1) > MAX_TVL_CHANGE) {
+      const change = (current / prev - 1) * 100;
+      reasons.push(`${label} moved ${change >= 0 ? "+" : ""}${change.toFixed(1)}% since the previous snapshot (limit ±${MAX_TVL_CHANGE * 100}%)`);
+    }
+  });
+
+  if (!snapshot.backfilled && !previous.backfilled && summary.s1RewardsIssued > 0
+      && summary.s1RewardsIssued < previous.summary.s1RewardsIssued) {
+    reasons.push(`Points total went backwards (${previous.summary.s1RewardsIssued.toLocaleString("en-US")} → ${summary.s1RewardsIssued.toLocaleString("en-US")})`);
+  }
+
+  const current = rowTvls(snapshot);
+  const prev = rowTvls(previous);
+
+  const prevLocked = sumLocks(prev);
+  if (prevLocked > 0 && sumLocks(current) === 0) {
+    reasons.push(`Lock data missing (previous snapshot had ${formatUsd(prevLocked)} locked)`);
+  }
+
+  // Zero supplies: a sizeable row that is now exactly $0 (lock rows are covered above)
+  Object.entries(prev).forEach(([id, prevTvl]) => {
+    if (id.startsWith("lock-") || prevTvl < MIN_ROW_TVL) return;
+    if (current[id] === 0) {
+      reasons.push(`${id} dropped to $0 (was ${formatUsd(prevTvl)})`);
+    }
+  });
+
+  return { reasons, warnings };
+}
+
+// Check a snapshot against the latest good snapshot captured before it
+export async function assessSnapshot(snapshot: SnapshotInput): Promise<SnapshotQuality> {
+  const previous = await getPreviousSnapshot(snapshot.captured_at);
+  const { reasons, warnings } = checkSnapshot(snapshot, previous);
+  return {
+    quarantined: reasons.length > 0,
+    reasons,
+    warnings,
+    previousCapturedAt: previous?.captured_at ?? null,
+  };
+}
@@ -0,0 +1,53 @@
+// Small statistics helpers for the inflation analysis (pure functions)
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  r2: number; // Share of variance explained, 0-1
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Population standard deviation
+export function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - avg) ** 2)));
+}
+
+// Ordinary least squares y = intercept + slope × x; null without two distinct x values
+export function linearFit(xs: number[], ys: number[]): LinearFit | null {
+  if (xs.length < 2 || xs.length !== ys.length) return null;
+
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxx += (x - xMean) ** 2;
+    sxy += (x - xMean) * (ys[i] - yMean);
+    syy += (ys[i] - yMean) ** 2;
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: yMean - slope * xMean,
+    r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 1,
+  };
+}
+
+// Least squares on ln(y), i.e. y = e^intercept × e^(slope × x); non-positive ys are skipped
+export function logLinearFit(xs: number[], ys: number[]): LinearFit | null {
+  const points = xs.map((x, i) => [x, ys[i]]).filter(([, y]) => y > 0);
+  return linearFit(points.map(([x]) => x), points.map(([, y]) => Math.log(y)));
+}
+
+// Trailing mean over up to `size` values (shorter at the start of the series)
+export function rollingMean(values: number[], size: number): number[] {
+  return values.map((_, i) => mean(values.slice(Math.max(0, i - size + 1), i + 1)));
+}
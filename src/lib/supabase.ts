@@ -22,14 +22,18 @@ export const supabaseAdmin: SupabaseClient | null = isSupabaseConfigured
 // Types for the database
 export interface TvlRow {
   id: string;
+  name?: string;   // Not stored by snapshots captured before /api/weighted-tvl
   tvlAmount: number;
+  boost?: number;  // Effective multiplier (base boost × lock boost for lock rows)
   weightedTvl: number;
   dailyPoints: number;
   share: number;
+  status?: string; // Row status at capture time, e.g. "matured" for expired YT/LP rows
 }
 
 export interface TvlCategory {
   category: string;
+  matured?: boolean; // Pendle market categories only
   rows: TvlRow[];
 }
 
@@ -47,17 +51,75 @@ export interface TvlSummary {
   estWeeklyPointsFormatted?: string;
   estMonthlyPoints: number;
   estMonthlyPointsFormatted?: string;
+  // Points per chain season program ("ethereum", "plasma"); s1RewardsIssued and
+  // participantCount are Ethereum's. Missing on snapshots captured before Plasma was tracked.
+  pointsByChain?: Record<string, { totalPoints: number; participantCount: number }>;
+  // When the points totals were read; missing on older snapshots, where captured_at stands in
+  pointsCapturedAt?: string;
 }
 
 export interface TvlSnapshot {
   id?: number;
   captured_at: string;
   captured_at_unix: number;
+  block_number?: number | null;    // Block every on-chain read was pinned to
+  block_timestamp?: number | null; // Unix seconds of that block
+  backfilled?: boolean;            // Rebuilt at a past block, no points total
+  quarantined?: boolean;           // Failed data-quality checks, excluded from analysis
+  quarantine_reasons?: string[] | null;
   summary: TvlSummary;
   table_condensed: TvlCategory[];
   created_at?: string;
 }
 
+export interface PendleMarketRecord {
+  address: string;
+  name: string;
+  underlying: 'nusd' | 'snusd';
+  expiry: string;
+  sy: string;
+  pt: string;
+  yt: string;
+  status: 'registered' | 'new' | 'matured';
+  approved: boolean;
+  points_multiplier: number | null;
+  first_seen_at?: string;
+  last_seen_at?: string;
+}
+
+// Decoded lock contract event, stored by the lock indexer (src/lib/locks.ts)
+export interface LockEventRecord {
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  block_timestamp: number;
+  event_type: 'locked' | 'unlocked' | 'early_withdrawal' | 'extended';
+  user_address: string;
+  asset: string;
+  amount: number;             // 0 for extensions
+  unlock_time: number | null; // New unlock time for locks and extensions, null for withdrawals
+  duration_days: number | null;
+  bucket: string | null;      // "3mo" | "6mo" | "9mo" | "12mo" at lock/extension time, null if shorter
+}
+
+// Row in the shared API cache (src/lib/cache.ts); timestamps are Unix ms
+export interface ApiCacheRecord {
+  key: string;
+  value: unknown;
+  stored_at: number;
+  expires_at: number;
+  stale_until: number;
+}
+
+// Boost read from live data for a TVL row (src/lib/liveBoosts.ts)
+export interface LiveBoostRecord {
+  row_id: string;
+  boost: number;
+  source: string;
+  changed_at: string; // First read of this value
+  checked_at: string; // When the record was written (only happens on a change)
+}
+
 // Helper functions for database operations
 export async function saveSnapshot(snapshot: Omit<TvlSnapshot, 'id' | 'created_at'>): Promise<{ success: boolean; error?: string }> {
   if (!supabaseAdmin) {
@@ -69,6 +131,11 @@ export async function saveSnapshot(snapshot: Omit<TvlSnapshot, 'id' | 'created_a
     .insert({
       captured_at: snapshot.captured_at,
       captured_at_unix: snapshot.captured_at_unix,
+      block_number: snapshot.block_number ?? null,
+      block_timestamp: snapshot.block_timestamp ?? null,
+      backfilled: snapshot.backfilled ?? false,
+      quarantined: snapshot.quarantined ?? false,
+      quarantine_reasons: snapshot.quarantine_reasons ?? null,
       summary: snapshot.summary,
       table_condensed: snapshot.table_condensed,
     });
@@ -101,6 +168,52 @@ export async function getLatestSnapshot(): Promise<TvlSnapshot | null> {
   return data;
 }
 
+// Latest snapshot captured before `capturedAt` that passed the quality checks
+export async function getPreviousSnapshot(capturedAt: string): Promise<TvlSnapshot | null> {
+  if (!supabase) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('tvl_snapshots')
+    .select('*')
+    .lt('captured_at', capturedAt)
+    .eq('quarantined', false)
+    .order('captured_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching previous snapshot:', error);
+    return null;
+  }
+
+  return data?.[0] ?? null;
+}
+
+// Latest live (not backfilled) snapshot that passed the quality checks; the last
+// points total we recorded, used when the points API can't be reached
+export async function getLatestLiveSnapshot(): Promise<TvlSnapshot | null> {
+  if (!supabase) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('tvl_snapshots')
+    .select('*')
+    .eq('backfilled', false)
+    .eq('quarantined', false)
+    .order('captured_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching latest live snapshot:', error);
+    return null;
+  }
+
+  return data?.[0] ?? null;
+}
+
+// The newest `limit` snapshots, oldest first.
 export async function getAllSnapshots(limit = 100): Promise<TvlSnapshot[]> {
   if (!supabase) {
     return [];
@@ -109,7 +222,7 @@ export async function getAllSnapshots(limit = 100): Promise<TvlSnapshot[]> {
   const { data, error } = await supabase
     .from('tvl_snapshots')
     .select('*')
-    .order('captured_at', { ascending: true })
+    .order('captured_at', { ascending: false })
     .limit(limit);
 
   if (error) {
@@ -117,7 +230,35 @@ export async function getAllSnapshots(limit = 100): Promise<TvlSnapshot[]> {
     return [];
   }
 
-  return data || [];
+  return (data || []).reverse();
+}
+
+// Every stored snapshot, oldest first. Reads in pages because PostgREST caps a
+// single select at 1,000 rows.
+export async function getSnapshotHistory(): Promise<TvlSnapshot[]> {
+  if (!supabase) {
+    return [];
+  }
+
+  const PAGE_SIZE = 1000;
+  const snapshots: TvlSnapshot[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('tvl_snapshots')
+      .select('*')
+      .order('captured_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching snapshot history:', error);
+      return [];
+    }
+
+    snapshots.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return snapshots;
 }
 
 export async function getSnapshotsByDateRange(
@@ -159,3 +300,239 @@ export async function getSnapshotCount(): Promise<number> {
 
   return count || 0;
 }
+
+export async function getPendleMarkets(): Promise<PendleMarketRecord[]> {
+  if (!supabase) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('pendle_markets')
+    .select('*')
+    .order('expiry', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pendle markets:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Upsert discovery results. Approval fields are left out so existing approvals survive re-runs.
+export async function savePendleMarkets(
+  markets: Omit<PendleMarketRecord, 'approved' | 'points_multiplier' | 'first_seen_at' | 'last_seen_at'>[]
+): Promise<{ success: boolean; error?: string }> {
+  if (!supabaseAdmin) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('pendle_markets')
+    .upsert(markets.map((m) => ({ ...m, last_seen_at: now })), { onConflict: 'address' });
+
+  if (error) {
+    console.error('Error saving pendle markets:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function setPendleMarketApproval(
+  address: string,
+  approved: boolean,
+  pointsMultiplier?: number
+): Promise<{ success: boolean; error?: string }> {
+  if (!supabaseAdmin) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  const update: Partial<PendleMarketRecord> = { approved };
+  if (pointsMultiplier !== undefined) {
+    update.points_multiplier = pointsMultiplier;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('pendle_markets')
+    .update(update)
+    .eq('address', address.toLowerCase());
+
+  if (error) {
+    console.error('Error updating market approval:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// Last block processed by a named indexer, or null if it has never run
+export async function getIndexerState(name: string): Promise<number | null> {
+  if (!supabase) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('indexer_state')
+    .select('last_block')
+    .eq('name', name)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching indexer state:', error);
+    return null;
+  }
+
+  return data ? Number(data.last_block) : null;
+}
+
+export async function setIndexerState(name: string, lastBlock: number): Promise<{ success: boolean; error?: string }> {
+  if (!supabaseAdmin) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('indexer_state')
+    .upsert({ name, last_block: lastBlock, updated_at: new Date().toISOString() }, { onConflict: 'name' });
+
+  if (error) {
+    console.error('Error saving indexer state:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// Upsert decoded lock events; (tx_hash, log_index) makes re-indexing a block harmless
+export async function saveLockEvents(events: LockEventRecord[]): Promise<{ success: boolean; error?: string }> {
+  if (!supabaseAdmin) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+  if (events.length === 0) {
+    return { success: true };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('lock_events')
+    .upsert(events, { onConflict: 'tx_hash,log_index' });
+
+  if (error) {
+    console.error('Error saving lock events:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// Every stored lock contract event in chain order, optionally for one wallet and up to a block.
+// Reads in pages because PostgREST caps a single select at 1,000 rows.
+export async function getLockEvents(user?: string, toBlock?: number): Promise<LockEventRecord[] | null> {
+  if (!supabase) {
+    return null;
+  }
+
+  const PAGE_SIZE = 1000;
+  const events: LockEventRecord[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('lock_events')
+      .select('*')
+      .order('block_number', { ascending: true })
+      .order('log_index', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (user) {
+      query = query.eq('user_address', user.toLowerCase());
+    }
+    if (toBlock !== undefined) {
+      query = query.lte('block_number', toBlock);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching lock events:', error);
+      return null;
+    }
+
+    events.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return events;
+}
+
+// API cache rows are read and written with the service role only
+export async function getApiCacheEntry(key: string): Promise<ApiCacheRecord | null> {
+  if (!supabaseAdmin) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('api_cache')
+    .select('key, value, stored_at, expires_at, stale_until')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching API cache entry:', error);
+    return null;
+  }
+
+  return data
+    ? { ...data, stored_at: Number(data.stored_at), expires_at: Number(data.expires_at), stale_until: Number(data.stale_until) }
+    : null;
+}
+
+export async function setApiCacheEntry(entry: ApiCacheRecord): Promise<{ success: boolean; error?: string }> {
+  if (!supabaseAdmin) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('api_cache')
+    .upsert({ ...entry, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+
+  if (error) {
+    console.error('Error saving API cache entry:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// Every recorded live boost change, oldest first
+export async function getLiveBoostRecords(): Promise<LiveBoostRecord[]> {
+  if (!supabase) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('live_boosts')
+    .select('*')
+    .order('changed_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching live boosts:', error);
+    return [];
+  }
+
+  return (data || []).map((record) => ({ ...record, boost: Number(record.boost) }));
+}
+
+export async function saveLiveBoostRecord(record: LiveBoostRecord): Promise<{ success: boolean; error?: string }> {
+  if (!supabaseAdmin) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('live_boosts')
+    .upsert(record, { onConflict: 'row_id,changed_at' });
+
+  if (error) {
+    console.error('Error saving live boost:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,112 @@
+// Price-impact ladder for YT purchases: market-order quotes at increasing sizes, showing how
+// YT per dollar (effective leverage), fees and the implied APY paid degrade as a buy grows,
+// and the largest chunk that stays within a few slippage budgets.
+
+import { parseUnits, formatUnits, calculateDaysToExpiry, calculateEffectiveLeverage } from "./calculations";
+import { fetchPendleMarket, fetchYtQuote } from "./pendle";
+
+// Buy sizes in USD
+export const LADDER_SIZES_USD = [1_000, 2_500, 5_000, 10_000, 25_000, 50_000, 100_000, 250_000, 500_000, 1_000_000, 2_500_000, 5_000_000];
+
+// Slippage budgets the chunk sizes are recommended for
+export const CHUNK_IMPACT_LIMITS = [0.005, 0.01, 0.02, 0.05];
+
+export interface SwapLadderPoint {
+  sizeUsd: number;
+  amountIn: number;                  // Underlying tokens spent
+  ytReceived: number;
+  ytPerDollar: number;
+  leverage: number;                  // YT per underlying token
+  feeUsd: number;
+  feeBps: number;                    // Fee as basis points of the amount spent
+  priceImpact: number;               // YT per dollar lost against the smallest size (0.01 = 1%)
+  effectiveImpliedApy: number | null; // Implied APY the buy pays, from its average YT price
+  impliedApyImpact: number | null;    // effectiveImpliedApy - market implied APY
+}
+
+export interface ChunkRecommendation {
+  maxImpact: number;
+  sizeUsd: number | null; // Largest quoted size within the limit, null if even the smallest is over
+}
+
+export interface SwapLadder {
+  market: string;
+  expiry: string;
+  underlyingPrice: number;
+  impliedApy: number;
+  quotedAt: string;
+  points: SwapLadderPoint[];
+  failedSizes: number[]; // Sizes Pendle couldn't quote (e.g. beyond the pool's liquidity)
+  chunks: ChunkRecommendation[];
+}
+
+// Annualized implied APY for paying `ytPrice` per YT when PT + YT is worth `assetPrice`
+function impliedApyFromYtPrice(ytPrice: number, assetPrice: number, daysToExpiry: number): number | null {
+  if (daysToExpiry <= 0 || ytPrice <= 0 || ytPrice >= assetPrice) return null;
+  return Math.pow(assetPrice / (assetPrice - ytPrice), 365 / daysToExpiry) - 1;
+}
+
+export function recommendChunks(points: SwapLadderPoint[], limits: number[] = CHUNK_IMPACT_LIMITS): ChunkRecommendation[] {
+  return limits.map((maxImpact) => {
+    const within = points.filter((point) => point.priceImpact <= maxImpact);
+    return { maxImpact, sizeUsd: within.length > 0 ? Math.max(...within.map((point) => point.sizeUsd)) : null };
+  });
+}
+
+// Quotes run one at a time so a full ladder doesn't trip Pendle's rate limit
+export async function buildSwapLadder(marketAddress: string, sizesUsd: number[] = LADDER_SIZES_USD): Promise<SwapLadder> {
+  const market = await fetchPendleMarket(marketAddress);
+  const underlyingPrice = market.sy?.price?.usd || 1;
+  const assetPrice = (market.pt?.price?.usd || 0) + (market.yt?.price?.usd || 0);
+  const daysToExpiry = calculateDaysToExpiry(market.expiry);
+
+  const quoted: Omit<SwapLadderPoint, "priceImpact">[] = [];
+  const failedSizes: number[] = [];
+
+  for (const sizeUsd of sizesUsd) {
+    const amountIn = sizeUsd / underlyingPrice;
+    try {
+      const quote = await fetchYtQuote(marketAddress, parseUnits(amountIn));
+      const ytReceived = formatUnits(quote.totalTrade.netToTaker);
+      const fee = formatUnits(quote.totalTrade.fee);
+      const effectiveImpliedApy = ytReceived > 0
+        ? impliedApyFromYtPrice(sizeUsd / ytReceived, assetPrice, daysToExpiry)
+        : null;
+      quoted.push({
+        sizeUsd,
+        amountIn,
+        ytReceived,
+        ytPerDollar: ytReceived / sizeUsd,
+        leverage: calculateEffectiveLeverage(amountIn, ytReceived),
+        feeUsd: fee * underlyingPrice,
+        feeBps: amountIn > 0 ? (fee / amountIn) * 10_000 : 0,
+        effectiveImpliedApy,
+        impliedApyImpact: effectiveImpliedApy === null ? null : effectiveImpliedApy - market.impliedApy,
+      });
+    } catch (error) {
+      console.error(`Swap ladder quote for $${sizeUsd} failed:`, error);
+      failedSizes.push(sizeUsd);
+    }
+  }
+
+  if (quoted.length === 0) {
+    throw new Error("No sizes could be quoted");
+  }
+
+  const best = quoted[0].ytPerDollar;
+  const points = quoted.map((point) => ({
+    ...point,
+    priceImpact: best > 0 ? 1 - point.ytPerDollar / best : 0,
+  }));
+
+  return {
+    market: marketAddress,
+    expiry: market.expiry,
+    underlyingPrice,
+    impliedApy: market.impliedApy,
+    quotedAt: new Date().toISOString(),
+    points,
+    failedSizes,
+    chunks: recommendChunks(points),
+  };
+}
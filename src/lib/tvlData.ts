@@ -1,3 +1,5 @@
+import { PENDLE_MARKETS, PendleMarketConfig, getMarketName, isMarketMatured } from "./markets";
+
 export interface TvlRow {
   id: string;
   name: string;
@@ -6,84 +8,132 @@ export interface TvlRow {
   boost?: number;
   baseBoost?: number; // For subrows: the parent's base boost to multiply with
   category?: string;
+  market?: string; // Registry key of the Pendle market this row belongs to
+  boostSource?: string;           // Where a live boost came from (e.g. "points-api"); unset = configured
+  boostChangedAt?: string | null; // When the live boost last changed, null if unknown
+  boostStale?: boolean;           // Live source unreadable, the boost is its last recorded value
 }
 
 export interface TvlCategory {
   id: string;
   title: string;
   warning?: string;
+  matured?: boolean; // Pendle market categories only
   rows: TvlRow[];
 }
 
-export const TVL_CATEGORIES: TvlCategory[] = [
-  {
-    id: "feb-2026",
-    title: "FEBRUARY 26, 2026 MARKET [ACTIVE]",
-    rows: [
-      // YT parent row shows gross TVL - display only, not counted in total
-      { id: "yt-nusd-feb26", name: "YT NUSD Feb 26 (Gross)", type: "row", status: "display", boost: 50, category: "pendle" },
-      // Fee shows what Pendle takes - earns points (goes to Pendle)
-      { id: "pendle-fee-nusd", name: "Pendle Fee (5%)", type: "subrow", status: "active", boost: 50 },
-      // NET shows final amount after fee - THIS earns points and counts in total
-      { id: "yt-nusd-feb26-net", name: "YT NUSD Feb 26 NET", type: "subrow", status: "active", boost: 50 },
-      // LP parent row shows full SY TVL - display only, not counted in total
-      { id: "lp-nusd-feb26", name: "LP NUSD Feb 26 (SY Portion)", type: "row", status: "display", boost: 50, category: "pendle" },
-      // 20% excluded from points - display only
-      { id: "lp-excluded-nusd", name: "Excluded (20%)", type: "subrow", status: "display", boost: 0 },
-      // 80% earns points
-      { id: "lp-nusd-feb26-net", name: "LP NUSD Feb 26 (80%)", type: "subrow", status: "active", boost: 50 },
-      { id: "pt-nusd-feb26", name: "PT NUSD Feb 26", type: "row", status: "excluded", category: "pendle" },
-    ],
-  },
-  {
-    id: "mar-2026",
-    title: "MARCH 5, 2026 MARKET [ACTIVE]",
+// Ids the first two markets had before they were derived from the registry key. Stored
+// snapshots carry them, so those markets keep them for per-row comparisons with history.
+const LEGACY_MARKET_IDS: Record<string, { category: string; fee: string; lpExcluded: string }> = {
+  "nusd-feb26": { category: "feb-2026", fee: "pendle-fee-nusd", lpExcluded: "lp-excluded-nusd" },
+  "snusd-mar26": { category: "mar-2026", fee: "pendle-fee-snusd", lpExcluded: "lp-excluded-snusd" },
+};
+
+// Category and row ids for one Pendle market, derived from its registry key
+export function getMarketRowIds(market: PendleMarketConfig) {
+  const legacy = LEGACY_MARKET_IDS[market.key];
+  return {
+    category: legacy?.category ?? market.key,
+    yt: `yt-${market.key}`,
+    fee: legacy?.fee ?? `pendle-fee-${market.key}`,
+    ytNet: `yt-${market.key}-net`,
+    lp: `lp-${market.key}`,
+    lpExcluded: legacy?.lpExcluded ?? `lp-excluded-${market.key}`,
+    lpNet: `lp-${market.key}-net`,
+    pt: `pt-${market.key}`,
+  };
+}
+
+// e.g. "FEBRUARY 26, 2026 MARKET [ACTIVE]"
+function getMarketTitle(market: PendleMarketConfig, now: number): string {
+  const expiry = new Date(market.expiry);
+  const month = expiry.toLocaleString("en-US", { month: "long", timeZone: "UTC" }).toUpperCase();
+  const state = isMarketMatured(market, now) ? "MATURED" : market.pendingApproval ? "PENDING APPROVAL" : "ACTIVE";
+  return `${month} ${expiry.getUTCDate()}, ${expiry.getUTCFullYear()} MARKET [${state}]`;
+}
+
+// Matured markets stop counting YT/LP rows; pending (discovered, unapproved)
+// markets render every row as display-only. `now` (ms) lets past blocks be weighed as of their time.
+export function buildMarketCategory(market: PendleMarketConfig, now: number = Date.now()): TvlCategory {
+  const category = buildMarketRows(market, now);
+  if (isMarketMatured(market, now)) {
+    return {
+      ...category,
+      matured: true,
+      warning: "Market has matured - YT and LP no longer earn points. Redeem PT / claim on Pendle.",
+      rows: category.rows.map((row) => (row.status === "active" ? { ...row, status: "matured" } : row)),
+    };
+  }
+  if (!market.pendingApproval) return category;
+  return {
+    ...category,
+    warning: "Discovered from the Pendle API - not counted toward weighted TVL until approved",
+    rows: category.rows.map((row) => (row.status === "active" ? { ...row, status: "display" } : row)),
+  };
+}
+
+function buildMarketRows(market: PendleMarketConfig, now: number): TvlCategory {
+  const ids = getMarketRowIds(market);
+  const name = getMarketName(market);
+  const boost = market.pointsMultiplier;
+  const feePercent = Math.round(market.feeSplit.pendleFee * 100);
+  const excludedPercent = Math.round(market.feeSplit.lpExcluded * 100);
+  return {
+    id: ids.category,
+    title: getMarketTitle(market, now),
+    matured: false,
     rows: [
       // YT parent row shows gross TVL - display only, not counted in total
-      { id: "yt-snusd-mar26", name: "YT sNUSD Mar 5 (Gross)", type: "row", status: "display", boost: 25, category: "pendle" },
+      { id: ids.yt, name: `YT ${name} (Gross)`, type: "row", status: "display", boost, category: "pendle", market: market.key },
       // Fee shows what Pendle takes - earns points (goes to Pendle)
-      { id: "pendle-fee-snusd", name: "Pendle Fee (5%)", type: "subrow", status: "active", boost: 25 },
+      { id: ids.fee, name: `Pendle Fee (${feePercent}%)`, type: "subrow", status: "active", boost, market: market.key },
       // NET shows final amount after fee - THIS earns points and counts in total
-      { id: "yt-snusd-mar26-net", name: "YT sNUSD Mar 5 NET", type: "subrow", status: "active", boost: 25 },
+      { id: ids.ytNet, name: `YT ${name} NET`, type: "subrow", status: "active", boost, market: market.key },
       // LP parent row shows full SY TVL - display only, not counted in total
-      { id: "lp-snusd-mar26", name: "LP sNUSD Mar 5 (SY Portion)", type: "row", status: "display", boost: 25, category: "pendle" },
-      // 20% excluded from points - display only
-      { id: "lp-excluded-snusd", name: "Excluded (20%)", type: "subrow", status: "display", boost: 0 },
-      // 80% earns points
-      { id: "lp-snusd-mar26-net", name: "LP sNUSD Mar 5 (80%)", type: "subrow", status: "active", boost: 25 },
-      { id: "pt-snusd-mar26", name: "PT sNUSD Mar 5", type: "row", status: "excluded", category: "pendle" },
-    ],
-  },
-  {
-    id: "hold",
-    title: "HOLD",
-    rows: [
-      // NUSD (unstaked) - Base: 5x, shows unlocked amount
-      { id: "hold-nusd", name: "Hold NUSD (unlocked)", type: "row", status: "active", boost: 5, category: "neutrl" },
-      // NUSD Locked - by duration bucket (base 5x × lock boost)
-      { id: "lock-nusd-3mo", name: "Lock NUSD (3 mo)", type: "subrow", status: "locked", boost: 6, baseBoost: 5, category: "neutrl" },
-      { id: "lock-nusd-6mo", name: "Lock NUSD (6 mo)", type: "subrow", status: "locked", boost: 15, baseBoost: 5, category: "neutrl" },
-      { id: "lock-nusd-9mo", name: "Lock NUSD (9 mo)", type: "subrow", status: "locked", boost: 25, baseBoost: 5, category: "neutrl" },
-      { id: "lock-nusd-12mo", name: "Lock NUSD (12 mo)", type: "subrow", status: "locked", boost: 30, baseBoost: 5, category: "neutrl" },
-      // sNUSD (staked) - Base: 1x, shows unlocked amount
-      { id: "hold-snusd", name: "Hold sNUSD (unlocked)", type: "row", status: "active", boost: 1, category: "neutrl" },
-      // sNUSD Locked - by duration bucket (base 1x × lock boost)
-      { id: "lock-snusd-3mo", name: "Lock sNUSD (3 mo)", type: "subrow", status: "locked", boost: 8, baseBoost: 1, category: "neutrl" },
-      { id: "lock-snusd-6mo", name: "Lock sNUSD (6 mo)", type: "subrow", status: "locked", boost: 20, baseBoost: 1, category: "neutrl" },
-      { id: "lock-snusd-9mo", name: "Lock sNUSD (9 mo)", type: "subrow", status: "locked", boost: 30, baseBoost: 1, category: "neutrl" },
-      { id: "lock-snusd-12mo", name: "Lock sNUSD (12 mo)", type: "subrow", status: "locked", boost: 40, baseBoost: 1, category: "neutrl" },
-      // Curve LP - Base: 5x, shows unlocked amount
-      { id: "hold-curve-lp", name: "Curve LP (unlocked)", type: "row", status: "active", boost: 5, category: "curve" },
-      { id: "curve-nusd-breakdown", name: "NUSD in pool", type: "subrow", status: "display", boost: 5, category: "curve" },
-      { id: "curve-usdc-breakdown", name: "USDC in pool", type: "subrow", status: "display", boost: 5, category: "curve" },
-      // Curve LP Locked - by duration bucket (base 5x × lock boost)
-      { id: "lock-curve-3mo", name: "Lock Curve LP (3 mo)", type: "subrow", status: "locked", boost: 4, baseBoost: 5, category: "curve" },
-      { id: "lock-curve-6mo", name: "Lock Curve LP (5-6 mo Max)", type: "subrow", status: "locked", boost: 10, baseBoost: 5, category: "curve" },
-      // upNUSD - 18 points per token
-      { id: "hold-upnusd", name: "Hold upNUSD", type: "row", status: "active", boost: 18, category: "k3" },
+      { id: ids.lp, name: `LP ${name} (SY Portion)`, type: "row", status: "display", boost, category: "pendle", market: market.key },
+      // Excluded share of LP - display only
+      { id: ids.lpExcluded, name: `Excluded (${excludedPercent}%)`, type: "subrow", status: "display", boost: 0, market: market.key },
+      // Remaining share of LP earns points
+      { id: ids.lpNet, name: `LP ${name} (${100 - excludedPercent}%)`, type: "subrow", status: "active", boost, market: market.key },
+      { id: ids.pt, name: `PT ${name}`, type: "row", status: "excluded", category: "pendle", market: market.key },
     ],
-  },
-];
+  };
+}
+
+// One category per Pendle market in the registry
+export const MARKET_CATEGORIES: TvlCategory[] = PENDLE_MARKETS.map((market) => buildMarketCategory(market));
+
+export const HOLD_CATEGORY: TvlCategory = {
+  id: "hold",
+  title: "HOLD",
+  rows: [
+    // NUSD (unstaked) - Base: 5x, shows unlocked amount
+    { id: "hold-nusd", name: "Hold NUSD (unlocked)", type: "row", status: "active", boost: 5, category: "neutrl" },
+    // NUSD Locked - by duration bucket (base 5x × lock boost)
+    { id: "lock-nusd-3mo", name: "Lock NUSD (3 mo)", type: "subrow", status: "locked", boost: 6, baseBoost: 5, category: "neutrl" },
+    { id: "lock-nusd-6mo", name: "Lock NUSD (6 mo)", type: "subrow", status: "locked", boost: 15, baseBoost: 5, category: "neutrl" },
+    { id: "lock-nusd-9mo", name: "Lock NUSD (9 mo)", type: "subrow", status: "locked", boost: 25, baseBoost: 5, category: "neutrl" },
+    { id: "lock-nusd-12mo", name: "Lock NUSD (12 mo)", type: "subrow", status: "locked", boost: 30, baseBoost: 5, category: "neutrl" },
+    // sNUSD (staked) - Base: 1x, shows unlocked amount
+    { id: "hold-snusd", name: "Hold sNUSD (unlocked)", type: "row", status: "active", boost: 1, category: "neutrl" },
+    // sNUSD Locked - by duration bucket (base 1x × lock boost)
+    { id: "lock-snusd-3mo", name: "Lock sNUSD (3 mo)", type: "subrow", status: "locked", boost: 8, baseBoost: 1, category: "neutrl" },
+    { id: "lock-snusd-6mo", name: "Lock sNUSD (6 mo)", type: "subrow", status: "locked", boost: 20, baseBoost: 1, category: "neutrl" },
+    { id: "lock-snusd-9mo", name: "Lock sNUSD (9 mo)", type: "subrow", status: "locked", boost: 30, baseBoost: 1, category: "neutrl" },
+    { id: "lock-snusd-12mo", name: "Lock sNUSD (12 mo)", type: "subrow", status: "locked", boost: 40, baseBoost: 1, category: "neutrl" },
+    // Curve LP - Base: 5x, shows unlocked amount
+    { id: "hold-curve-lp", name: "Curve LP (unlocked)", type: "row", status: "active", boost: 5, category: "curve" },
+    { id: "curve-nusd-breakdown", name: "NUSD in pool", type: "subrow", status: "display", boost: 5, category: "curve" },
+    { id: "curve-usdc-breakdown", name: "USDC in pool", type: "subrow", status: "display", boost: 5, category: "curve" },
+    // Curve LP Locked - by duration bucket (base 5x × lock boost)
+    { id: "lock-curve-3mo", name: "Lock Curve LP (3 mo)", type: "subrow", status: "locked", boost: 4, baseBoost: 5, category: "curve" },
+    { id: "lock-curve-6mo", name: "Lock Curve LP (5-6 mo Max)", type: "subrow", status: "locked", boost: 10, baseBoost: 5, category: "curve" },
+    // upNUSD - 18 points per token, replaced by the live multiplier from the points API (src/lib/liveBoosts.ts)
+    { id: "hold-upnusd", name: "Hold upNUSD", type: "row", status: "active", boost: 18, category: "k3" },
+  ],
+};
+
+export const TVL_CATEGORIES: TvlCategory[] = [...MARKET_CATEGORIES, HOLD_CATEGORY];
 
 export interface TvlInputData {
   [key: string]: {
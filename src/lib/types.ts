@@ -24,6 +24,7 @@ export interface MarketData {
   ytRoi: number;
   ptRoi: number;
   ytFloatingApy: number;
+  swapFeeApy?: number; // LP swap fee APY, on the LP's full value
 }
 
 export interface SwapQuoteRequest {
@@ -54,6 +55,31 @@ export interface SwapQuoteResponse {
   };
 }
 
+// Position bought with the underlying: YT or PT through a market order, or LP through a zap
+export type SwapPositionType = "yt" | "pt" | "lp";
+
+// What /api/swap quotes: buying a position, or selling YT back to the underlying
+export type SwapQuoteType = SwapPositionType | "yt-sell";
+
+// Pendle SDK add-liquidity (zap in) response, fields the calculator uses
+export interface LpZapResponse {
+  data: {
+    amountLpOut: string;
+    amountYtOut?: string;
+    priceImpact: number;
+  };
+}
+
+// Quote for any position type in one shape; amounts are wei strings of the input / output token
+export interface NormalizedSwapQuote {
+  type: SwapQuoteType;
+  market: string;
+  amountIn: string;
+  amountOut: string;          // YT, PT or LP tokens received, or the underlying for a YT sale
+  fee: string;                // In the underlying, "0" where the quote doesn't report one
+  priceImpact: number | null; // Fraction, when the quote reports one
+}
+
 export interface CalculationResult {
   ytReceived: number;
   pointsEarned: number;
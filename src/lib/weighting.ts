@@ -0,0 +1,241 @@
+// Points weighting engine: turns a /api/tvl payload (or any per-row TVL map) plus the
+// TVL categories into per-row weighted TVL, shares and summary totals.
+// Pure functions only - shared by the TVL table, the wallet portfolio, /api/tvl and
+// /api/weighted-tvl, whose condensed table is what the snapshot job stores.
+
+import { PendleMarketConfig } from "./markets";
+import { TvlCategory, TvlRow, getMarketRowIds } from "./tvlData";
+import type { TvlCategory as CondensedCategory } from "./supabase";
+import type { TvlApiResponse } from "../hooks/useTvlData";
+
+export interface WeightedRow {
+  id: string;
+  name: string;
+  type: TvlRow["type"];
+  status: NonNullable<TvlRow["status"]>;
+  boost: number;
+  baseBoost: number | null;
+  effectiveBoost: number;
+  boostSource: string;           // "config", or the live data source that set the boost
+  boostChangedAt: string | null; // When a live boost last changed
+  tvlAmount: number;
+  weightedTvl: number;
+  dailyPoints: number; // 1 weighted dollar = 1 point per day
+  share: number;       // % of total weighted TVL, 0 for rows that don't count
+  counted: boolean;
+}
+
+export interface WeightedCategory {
+  id: string;
+  title: string;
+  matured?: boolean; // Pendle market categories only
+  rows: WeightedRow[];
+}
+
+export interface WeightingSummary {
+  totalTvl: number;
+  weightedTvl: number;
+  estDailyPoints: number;
+  estWeeklyPoints: number;
+  estMonthlyPoints: number;
+}
+
+// Boost for a row read from live data, replacing its configured boost
+export interface LiveBoost {
+  boost: number;
+  source: string;    // e.g. "points-api"
+  changedAt: string; // When the value last changed (first read if it never has)
+  stale: boolean;    // Source unreadable, this is the last recorded value
+}
+
+// The parts of the /api/tvl payload the engine reads
+export type TvlPayload = Pick<TvlApiResponse, "markets" | "nusd" | "snusd" | "upnusd" | "curve" | "locks">;
+
+export interface WeightingResult {
+  categories: WeightedCategory[];
+  rows: Record<string, WeightedRow>;
+  summary: WeightingSummary;
+}
+
+// Row TVLs for one Pendle market from the USD value of its YT, LP (SY portion) and PT
+export function getMarketRowTvls(
+  market: PendleMarketConfig,
+  values: { ytTvl: number; lpSyTvl: number; ptTvl: number }
+): Record<string, number> {
+  const ids = getMarketRowIds(market);
+  const { pendleFee, lpExcluded } = market.feeSplit;
+  return {
+    // YT gross, Pendle fee share, and NET after fee - THIS earns points
+    [ids.yt]: values.ytTvl,
+    [ids.fee]: values.ytTvl * pendleFee,
+    [ids.ytNet]: values.ytTvl * (1 - pendleFee),
+    // LP SY portion, excluded share, and NET share that earns points
+    [ids.lp]: values.lpSyTvl,
+    [ids.lpExcluded]: values.lpSyTvl * lpExcluded,
+    [ids.lpNet]: values.lpSyTvl * (1 - lpExcluded),
+    // PT (display only, excluded from points)
+    [ids.pt]: values.ptTvl,
+  };
+}
+
+// Protocol-wide row TVLs from the /api/tvl response
+export function getLiveRowTvls(tvlData: TvlPayload, markets: PendleMarketConfig[]): Record<string, number> {
+  const tvls: Record<string, number> = {};
+
+  markets.forEach((market) => {
+    const marketData = tvlData.markets?.[market.key];
+    if (!marketData) return;
+    Object.assign(tvls, getMarketRowTvls(market, {
+      // 1 YT = 1 underlying token for points, use underlying price
+      ytTvl: marketData.ytTotalSupply * marketData.underlyingPrice,
+      lpSyTvl: marketData.lpSyTvl,
+      ptTvl: marketData.ptTotalSupply * marketData.ptPrice,
+    }));
+  });
+
+  // Hold NUSD / sNUSD - circulating supply (outside Pendle) × price
+  if (tvlData.nusd) tvls["hold-nusd"] = tvlData.nusd.holdTvl;
+  if (tvlData.snusd) tvls["hold-snusd"] = tvlData.snusd.holdTvl;
+
+  // upNUSD (K3 protocol)
+  if (tvlData.upnusd) tvls["hold-upnusd"] = tvlData.upnusd.tvl;
+
+  // Curve NUSD-USDC LP (unlocked portion) plus display-only pool breakdown
+  if (tvlData.curve) {
+    tvls["hold-curve-lp"] = tvlData.curve.unlockedTvl;
+    tvls["curve-nusd-breakdown"] = tvlData.curve.nusdTvl;
+    tvls["curve-usdc-breakdown"] = tvlData.curve.usdcTvl;
+  }
+
+  // Lock contract data by duration bucket
+  if (tvlData.locks) {
+    const { nusd, snusd, curveLp } = tvlData.locks;
+    (["3mo", "6mo", "9mo", "12mo"] as const).forEach((bucket) => {
+      tvls[`lock-nusd-${bucket}`] = nusd.buckets[bucket].tvl;
+      tvls[`lock-snusd-${bucket}`] = snusd.buckets[bucket].tvl;
+    });
+    tvls["lock-curve-3mo"] = curveLp.buckets["3mo"].tvl;
+    tvls["lock-curve-6mo"] = curveLp.buckets["6mo"].tvl;
+  }
+
+  return tvls;
+}
+
+// Categories with live boosts swapped in for the configured ones; other rows are untouched
+export function applyLiveBoosts(categories: TvlCategory[], liveBoosts: Record<string, LiveBoost> | undefined): TvlCategory[] {
+  if (!liveBoosts || Object.keys(liveBoosts).length === 0) return categories;
+  return categories.map((cat) => ({
+    ...cat,
+    rows: cat.rows.map((row) => {
+      const live = liveBoosts[row.id];
+      return live
+        ? { ...row, boost: live.boost, boostSource: live.source, boostChangedAt: live.changedAt, boostStale: live.stale }
+        : row;
+    }),
+  }));
+}
+
+// Multiplier applied to a row: boost, or base boost × lock boost for lock subrows
+export function getEffectiveBoost(row: TvlRow): number {
+  const boost = row.boost || 0;
+  return row.baseBoost ? row.baseBoost * boost : boost;
+}
+
+// Weighted TVL for a row; excluded and matured rows weigh nothing
+export function getRowWeightedTvl(row: TvlRow, tvl: number): number {
+  if (row.status === "excluded" || row.status === "matured") return 0;
+  return tvl * getEffectiveBoost(row);
+}
+
+// Active and locked rows count toward totals; excluded, matured and display rows don't
+export function countsTowardTotal(row: TvlRow): boolean {
+  return row.status === "active" || row.status === "locked";
+}
+
+// Weigh every row of the categories against a row id → TVL map (missing rows are $0)
+export function weighRows(categories: TvlCategory[], rowTvls: Record<string, number>): WeightingResult {
+  const weighRow = (row: TvlRow): WeightedRow => {
+    const tvlAmount = rowTvls[row.id] || 0;
+    const weightedTvl = getRowWeightedTvl(row, tvlAmount);
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      status: row.status || "display",
+      boost: row.boost || 0,
+      baseBoost: row.baseBoost ?? null,
+      effectiveBoost: getEffectiveBoost(row),
+      boostSource: row.boostSource ?? "config",
+      boostChangedAt: row.boostChangedAt ?? null,
+      tvlAmount,
+      weightedTvl,
+      dailyPoints: weightedTvl,
+      share: 0,
+      counted: countsTowardTotal(row),
+    };
+  };
+
+  const weighted: WeightedCategory[] = categories.map((cat) => ({
+    id: cat.id,
+    title: cat.title,
+    ...(cat.matured !== undefined && { matured: cat.matured }),
+    rows: cat.rows.filter((row) => row.type !== "total").map(weighRow),
+  }));
+
+  const rows: Record<string, WeightedRow> = {};
+  let totalTvl = 0;
+  let weightedTvl = 0;
+  weighted.forEach((cat) => cat.rows.forEach((row) => {
+    rows[row.id] = row;
+    if (row.counted) {
+      totalTvl += row.tvlAmount;
+      weightedTvl += row.weightedTvl;
+    }
+  }));
+
+  // Shares only for counted rows, against the counted total
+  Object.values(rows).forEach((row) => {
+    if (row.counted && weightedTvl > 0) {
+      row.share = (row.weightedTvl / weightedTvl) * 100;
+    }
+  });
+
+  return {
+    categories: weighted,
+    rows,
+    summary: {
+      totalTvl,
+      weightedTvl,
+      estDailyPoints: weightedTvl,
+      estWeeklyPoints: weightedTvl * 7,
+      estMonthlyPoints: weightedTvl * 30,
+    },
+  };
+}
+
+// Weigh the protocol-wide TVL from a /api/tvl payload
+export function weighTvlData(
+  tvlData: TvlPayload,
+  categories: TvlCategory[],
+  markets: PendleMarketConfig[]
+): WeightingResult {
+  return weighRows(categories, getLiveRowTvls(tvlData, markets));
+}
+
+// Condensed table as stored in tvl_snapshots.table_condensed and served by /api/weighted-tvl
+export function toTableCondensed(categories: WeightedCategory[]): CondensedCategory[] {
+  return categories.map((cat) => ({
+    category: cat.title,
+    ...(cat.matured !== undefined && { matured: cat.matured }),
+    rows: cat.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      tvlAmount: row.tvlAmount,
+      boost: row.effectiveBoost,
+      weightedTvl: row.weightedTvl,
+      dailyPoints: row.dailyPoints,
+      share: row.share,
+      status: row.status,
+    })),
+  }));
+}
@@ -5,11 +5,32 @@ CREATE TABLE IF NOT EXISTS tvl_snapshots (
   id SERIAL PRIMARY KEY,
   captured_at TIMESTAMPTZ NOT NULL,
   captured_at_unix BIGINT NOT NULL,
+  block_number BIGINT,
+  block_timestamp BIGINT,
+  backfilled BOOLEAN NOT NULL DEFAULT FALSE,
+  quarantined BOOLEAN NOT NULL DEFAULT FALSE,
+  quarantine_reasons JSONB,
   summary JSONB NOT NULL,
   table_condensed JSONB NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Block the snapshot's on-chain reads were pinned to (null for rows captured before pinning)
+ALTER TABLE tvl_snapshots ADD COLUMN IF NOT EXISTS block_number BIGINT;
+ALTER TABLE tvl_snapshots ADD COLUMN IF NOT EXISTS block_timestamp BIGINT;
+
+-- Rebuilt at a past block by scripts/backfill-snapshots.js rather than captured live
+-- (no historical points total, USD prices from the time of the backfill)
+ALTER TABLE tvl_snapshots ADD COLUMN IF NOT EXISTS backfilled BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_snapshots_block_number
+ON tvl_snapshots(block_number);
+
+-- Failed data-quality checks against the previous snapshot (src/lib/snapshotQuality.ts);
+-- kept for inspection but left out of inflation analysis by default
+ALTER TABLE tvl_snapshots ADD COLUMN IF NOT EXISTS quarantined BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE tvl_snapshots ADD COLUMN IF NOT EXISTS quarantine_reasons JSONB;
+
 -- Index for time-based queries (most common access pattern)
 CREATE INDEX IF NOT EXISTS idx_snapshots_captured_at
 ON tvl_snapshots(captured_at DESC);
@@ -47,3 +68,147 @@ GRANT SELECT ON tvl_snapshots TO anon;
 GRANT SELECT ON tvl_snapshots TO authenticated;
 GRANT ALL ON tvl_snapshots TO service_role;
 GRANT USAGE, SELECT ON SEQUENCE tvl_snapshots_id_seq TO service_role;
+
+-- Pendle Markets Table
+-- Neutrl markets found by the discovery job (scripts/discover-markets.js).
+-- New markets only count toward weighted TVL once approved.
+
+CREATE TABLE IF NOT EXISTS pendle_markets (
+  address TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  underlying TEXT NOT NULL,
+  expiry TIMESTAMPTZ NOT NULL,
+  sy TEXT NOT NULL,
+  pt TEXT NOT NULL,
+  yt TEXT NOT NULL,
+  status TEXT NOT NULL,
+  approved BOOLEAN NOT NULL DEFAULT FALSE,
+  points_multiplier NUMERIC,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pendle_markets_expiry
+ON pendle_markets(expiry);
+
+ALTER TABLE pendle_markets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access"
+ON pendle_markets
+FOR SELECT
+TO public
+USING (true);
+
+GRANT SELECT ON pendle_markets TO anon;
+GRANT SELECT ON pendle_markets TO authenticated;
+GRANT ALL ON pendle_markets TO service_role;
+
+-- Lock Events Table
+-- Decoded events from the Neutrl lock contract (locks, unlocks, early withdrawals,
+-- extensions), filled incrementally by the lock indexer. /api/tvl and /api/portfolio
+-- replay these to rebuild each user's current lock and its bucket.
+
+CREATE TABLE IF NOT EXISTS lock_events (
+  id BIGSERIAL PRIMARY KEY,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_number BIGINT NOT NULL,
+  block_timestamp BIGINT NOT NULL,
+  event_type TEXT NOT NULL,
+  user_address TEXT NOT NULL,
+  asset TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  unlock_time BIGINT,
+  duration_days INTEGER,
+  bucket TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lock_events_block
+ON lock_events(block_number, log_index);
+
+CREATE INDEX IF NOT EXISTS idx_lock_events_user
+ON lock_events(user_address);
+
+ALTER TABLE lock_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access"
+ON lock_events
+FOR SELECT
+TO public
+USING (true);
+
+GRANT SELECT ON lock_events TO anon;
+GRANT SELECT ON lock_events TO authenticated;
+GRANT ALL ON lock_events TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE lock_events_id_seq TO service_role;
+
+-- Indexer State Table
+-- Last block processed by each incremental indexer (e.g. "lock_contract")
+
+CREATE TABLE IF NOT EXISTS indexer_state (
+  name TEXT PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE indexer_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access"
+ON indexer_state
+FOR SELECT
+TO public
+USING (true);
+
+GRANT SELECT ON indexer_state TO anon;
+GRANT SELECT ON indexer_state TO authenticated;
+GRANT ALL ON indexer_state TO service_role;
+
+-- API Cache Table
+-- Shared response cache for the API routes (src/lib/cache.ts with CACHE_BACKEND=supabase),
+-- so cached TVL, points and market data survive restarts and are shared across instances.
+-- Server-side only: no public read policy.
+
+CREATE TABLE IF NOT EXISTS api_cache (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  stored_at BIGINT NOT NULL,   -- Unix ms
+  expires_at BIGINT NOT NULL,  -- Unix ms, fresh until then
+  stale_until BIGINT NOT NULL, -- Unix ms, served stale (and refreshed) until then
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE api_cache ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON api_cache TO service_role;
+
+-- Live Boosts Table
+-- Every boost read from live data for the TVL rows it drives (e.g. "hold-upnusd" from the
+-- points API's upNUSD multiplier), one row per change. The latest applies to live builds;
+-- past blocks use the value in force at their block time.
+
+CREATE TABLE IF NOT EXISTS live_boosts (
+  row_id TEXT NOT NULL,
+  boost NUMERIC NOT NULL,
+  source TEXT NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL, -- First read of this value
+  checked_at TIMESTAMPTZ NOT NULL, -- When the row was written (only on a change)
+  PRIMARY KEY (row_id, changed_at)
+);
+
+-- Tables created with one row per row_id: keep every change from now on
+ALTER TABLE live_boosts DROP CONSTRAINT IF EXISTS live_boosts_pkey;
+ALTER TABLE live_boosts ADD PRIMARY KEY (row_id, changed_at);
+
+ALTER TABLE live_boosts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access"
+ON live_boosts
+FOR SELECT
+TO public
+USING (true);
+
+GRANT SELECT ON live_boosts TO anon;
+GRANT SELECT ON live_boosts TO authenticated;
+GRANT ALL ON live_boosts TO service_role;